@@ -0,0 +1,166 @@
+import { findPoolMember } from './placement';
+import { getEnvBinding } from './env';
+
+// Pool members without an account use this one. Unless ACCOUNTS overrides it, it is the R2 account of
+// ACCOUNT_ID with the R2_KEY and R2_SECRET credentials. Without ACCOUNT_ID there is none, which is fine for
+// buckets served by a binding.
+export const DEFAULT_ACCOUNT = 'default';
+
+// Where an account's buckets are reached and which secrets hold its credentials. An R2 account is given by
+// its accountId and optional jurisdiction, any other S3-compatible service by its endpoint.
+export interface AccountConfig {
+	endpoint: string;
+	region: string;
+	jurisdiction: string | null;
+	// Names of the secrets holding the access key ID and secret access key
+	secrets: { accessKeyId: string; secretAccessKey: string };
+}
+
+// How a bucket is reached through the S3 API
+export interface S3Connection {
+	// The S3 API origin. Buckets are addressed path-style under it.
+	endpoint: string;
+	region: string;
+	jurisdiction: string | null;
+	credentials: { accessKeyId: string; secretAccessKey: string };
+}
+
+// Everything needed to send a request to a physical bucket
+export interface BucketDescriptor {
+	name: string;
+	account: string;
+	// The R2 binding serving the bucket, or null when it is reached through the S3 API
+	binding: R2Bucket | null;
+	// Only resolved for buckets without a binding, so those with one need neither an account nor S3 credentials
+	s3: S3Connection | null;
+}
+
+function parseAccount(name: string, raw: unknown): AccountConfig {
+	const {
+		accountId,
+		endpoint,
+		region = 'auto',
+		jurisdiction = null,
+		secrets,
+	} = (raw ?? {}) as {
+		accountId?: unknown;
+		endpoint?: unknown;
+		region?: unknown;
+		jurisdiction?: unknown;
+		secrets?: Record<string, unknown>;
+	};
+
+	if (typeof secrets?.accessKeyId !== 'string' || typeof secrets?.secretAccessKey !== 'string') {
+		throw new Error(`Account ${name} must name its accessKeyId and secretAccessKey secrets`);
+	}
+	if (jurisdiction !== null && (typeof jurisdiction !== 'string' || !/^[a-z]+$/.test(jurisdiction))) {
+		throw new Error(`Invalid jurisdiction for account ${name}: ${jurisdiction}`);
+	}
+	if (typeof region !== 'string' || !region) {
+		throw new Error(`Invalid region for account ${name}: ${region}`);
+	}
+
+	let origin: string;
+	if ((endpoint === undefined) === (accountId === undefined)) {
+		throw new Error(`Account ${name} must have exactly one of accountId or endpoint`);
+	} else if (accountId !== undefined) {
+		if (typeof accountId !== 'string' || !/^[0-9a-z]+$/i.test(accountId)) {
+			throw new Error(`Invalid accountId for account ${name}: ${accountId}`);
+		}
+		origin = `https://${accountId}${jurisdiction ? `.${jurisdiction}` : ''}.r2.cloudflarestorage.com`;
+	} else {
+		// Buckets are addressed under the endpoint, so it cannot have a path of its own
+		const url = typeof endpoint === 'string' && URL.canParse(endpoint) ? new URL(endpoint) : null;
+		if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:') || url.pathname !== '/' || url.search) {
+			throw new Error(`Endpoint for account ${name} must be an http(s) origin: ${endpoint}`);
+		}
+		origin = url.origin;
+	}
+
+	return {
+		endpoint: origin,
+		region,
+		jurisdiction,
+		secrets: { accessKeyId: secrets.accessKeyId, secretAccessKey: secrets.secretAccessKey },
+	};
+}
+
+// Parse the ACCOUNTS config: an object (or a JSON string of one) mapping account names to
+// `{ accountId, jurisdiction?, secrets }` for R2 or `{ endpoint, region?, secrets }` for other S3-compatible
+// services, where secrets is `{ accessKeyId, secretAccessKey }` naming the secrets that hold the credentials.
+// region defaults to `auto`. The default account is added from accountId unless it is configured.
+export function parseAccounts(value: unknown, accountId: string | undefined): Map<string, AccountConfig> {
+	const raw = typeof value === 'string' ? JSON.parse(value) : value ?? {};
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		throw new Error('ACCOUNTS must be an object');
+	}
+
+	const accounts = new Map<string, AccountConfig>();
+	for (const [name, config] of Object.entries(raw)) {
+		accounts.set(name, parseAccount(name, config));
+	}
+	if (!accounts.has(DEFAULT_ACCOUNT) && accountId) {
+		accounts.set(
+			DEFAULT_ACCOUNT,
+			parseAccount(DEFAULT_ACCOUNT, { accountId, secrets: { accessKeyId: 'R2_KEY', secretAccessKey: 'R2_SECRET' } })
+		);
+	}
+	return accounts;
+}
+
+// Parsed accounts by env, so ACCOUNTS is parsed once per isolate rather than on every backend request
+const parsedAccounts = new WeakMap<Env, Map<string, AccountConfig>>();
+
+export function getAccounts(env: Env): Map<string, AccountConfig> {
+	let accounts = parsedAccounts.get(env);
+	if (!accounts) {
+		accounts = parseAccounts(env.ACCOUNTS, env.ACCOUNT_ID);
+		parsedAccounts.set(env, accounts);
+	}
+	return accounts;
+}
+
+function readSecret(env: Env, account: string, name: string): string {
+	const value = getEnvBinding(env, name, 'secret');
+	if (!value) {
+		throw new Error(`Account ${account} uses secret ${name}, which is not set`);
+	}
+	return value;
+}
+
+// Resolve how to reach a physical bucket of any virtual bucket, current or previous pool. This is the only
+// place connection details are read from the environment.
+export function getBucketDescriptor(env: Env, bucketName: string): BucketDescriptor {
+	const member = findPoolMember(env, bucketName);
+	if (!member) {
+		throw new Error(`Bucket ${bucketName} is not in any pool`);
+	}
+
+	const accountName = member.account ?? DEFAULT_ACCOUNT;
+	if (member.binding) {
+		const binding = getEnvBinding(env, member.binding, 'r2');
+		if (!binding) {
+			throw new Error(`Bucket ${bucketName} is configured with binding ${member.binding}, which is not an R2 bucket`);
+		}
+		return { name: bucketName, account: accountName, binding, s3: null };
+	}
+
+	const account = getAccounts(env).get(accountName);
+	if (!account) {
+		throw new Error(`Bucket ${bucketName} is configured with account ${accountName}, which does not exist`);
+	}
+	return {
+		name: bucketName,
+		account: accountName,
+		binding: null,
+		s3: {
+			endpoint: account.endpoint,
+			region: account.region,
+			jurisdiction: account.jurisdiction,
+			credentials: {
+				accessKeyId: readSecret(env, accountName, account.secrets.accessKeyId),
+				secretAccessKey: readSecret(env, accountName, account.secrets.secretAccessKey),
+			},
+		},
+	};
+}
@@ -0,0 +1,53 @@
+import { s3ErrorResponse } from './errors';
+
+// The virtual bucket and key a request addresses
+export interface S3Address {
+	// Empty for service-level requests (ListBuckets)
+	bucketName: string;
+	// The decoded object key, empty for bucket-level requests
+	key: string;
+}
+
+export type AddressResult = S3Address | { error: Response };
+
+// Whether a request names its bucket in the host, as `<bucket>.<BASE_DOMAIN>`
+export function isVirtualHosted(url: URL, env: Env): boolean {
+	const baseDomain = env.BASE_DOMAIN?.toLowerCase();
+	return !!baseDomain && url.hostname.toLowerCase().endsWith(`.${baseDomain}`);
+}
+
+// Resolve the bucket and key of a request. With BASE_DOMAIN set, a request to `<bucket>.<BASE_DOMAIN>` is
+// virtual-hosted style and its whole path is the key. Any other host is path-style: the first path segment
+// names the bucket and the rest is the key. Keys arrive percent-encoded and are decoded here, so placement,
+// policies and lists all see the same key.
+export function resolveAddress(url: URL, env: Env): AddressResult {
+	const path = url.pathname.slice(1);
+
+	let bucketName: string;
+	let encodedKey: string;
+	if (isVirtualHosted(url, env)) {
+		bucketName = url.hostname.toLowerCase().slice(0, -env.BASE_DOMAIN!.length - 1);
+		encodedKey = path;
+	} else {
+		const separator = path.indexOf('/');
+		bucketName = separator === -1 ? path : path.slice(0, separator);
+		encodedKey = separator === -1 ? '' : path.slice(separator + 1);
+	}
+
+	try {
+		return { bucketName: decodeURIComponent(bucketName), key: decodeURIComponent(encodedKey) };
+	} catch {
+		return { error: s3ErrorResponse('InvalidURI', "Couldn't parse the specified URI.", 400, { URI: url.pathname }) };
+	}
+}
+
+// Percent-encode a URI component the way SigV4 canonicalizes it (RFC 3986), rather than the form encoding
+// of URLSearchParams, which turns spaces into `+` and leaves `*` alone
+export function escapeUri(value: string): string {
+	return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// Percent-encode a request path, leaving its slashes alone. This is the form S3 signs.
+export function encodePath(path: string): string {
+	return path.split('/').map(escapeUri).join('/');
+}
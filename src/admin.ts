@@ -0,0 +1,143 @@
+import { sendR2Request } from './r2';
+import {
+	getListingBuckets,
+	getVirtualBucket,
+	getVirtualBuckets,
+	placeKey,
+	placementKey,
+	placePreviousKey,
+	placeReplicas,
+	rankBuckets,
+} from './placement';
+import { sha256Hex, signaturesEqual } from './sigv4';
+import { getAccounts } from './accounts';
+
+// Admin routes are served path-style under this bucket name. Bucket names cannot contain underscores, so it never
+// shadows a virtual bucket.
+export const ADMIN_BUCKET = '_admin';
+
+function json(body: unknown, status = 200): Response {
+	return new Response(JSON.stringify(body, null, 2), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// The admin API takes `Authorization: Bearer <ADMIN_TOKEN>`, which is separate from the S3 credentials. It is
+// disabled while ADMIN_TOKEN is unset.
+async function isAdmin(req: Request, env: Env): Promise<boolean> {
+	const token = req.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+	if (!env.ADMIN_TOKEN || !token) {
+		return false;
+	}
+	// Hashing both first compares equal lengths, so the comparison does not leak the token's length either
+	return signaturesEqual(await sha256Hex(env.ADMIN_TOKEN), await sha256Hex(token));
+}
+
+// GET /_admin/locate?bucket=&key= - which buckets should hold a key, and whether they do. bucket may be left
+// out when only one virtual bucket is configured.
+async function handleLocate(url: URL, env: Env): Promise<Response> {
+	const key = url.searchParams.get('key');
+	if (!key) {
+		return json({ error: 'key is required' }, 400);
+	}
+	const virtualBuckets = getVirtualBuckets(env);
+	const bucketName = url.searchParams.get('bucket') ?? (virtualBuckets.length === 1 ? virtualBuckets[0].name : null);
+	if (!bucketName) {
+		return json({ error: 'bucket is required when several virtual buckets are configured' }, 400);
+	}
+	const virtualBucket = getVirtualBucket(env, bucketName);
+	if (!virtualBucket) {
+		return json({ error: `No virtual bucket named ${bucketName}` }, 404);
+	}
+
+	const owner = await placeKey(virtualBucket, key);
+	const replicas = await placeReplicas(virtualBucket, key);
+	const previousOwner = await placePreviousKey(virtualBucket, key);
+	const hashedKey = placementKey(key, virtualBucket.placement);
+	const ranking = await rankBuckets(hashedKey, virtualBucket.pool);
+
+	// Check every bucket that may serve the key
+	const candidates = new Set([...replicas, ...(previousOwner ? [previousOwner] : [])]);
+	const locations = await Promise.all(
+		[...candidates].map(async (bucket) => {
+			try {
+				const resp = await sendR2Request('HEAD', bucket, `/${key}`, env);
+				return {
+					bucket,
+					exists: resp.ok,
+					status: resp.status,
+					etag: resp.headers.get('etag'),
+					size: resp.ok ? Number(resp.headers.get('content-length')) : null,
+					lastModified: resp.headers.get('last-modified'),
+				};
+			} catch (error) {
+				return { bucket, exists: null, error: String(error) };
+			}
+		})
+	);
+
+	return json({
+		bucket: virtualBucket.name,
+		key,
+		placementKey: hashedKey,
+		owner,
+		replicas,
+		previousOwner,
+		ranking: ranking.map((member) => member.name),
+		locations,
+	});
+}
+
+// GET /_admin/config - the accounts and virtual buckets as parsed, with their pools and placement rules
+function handleConfig(env: Env): Response {
+	return json({
+		hashing: { algorithm: 'weighted-rendezvous', hash: 'SHA-256' },
+		baseDomain: env.BASE_DOMAIN ?? null,
+		// Accounts name the secrets holding their credentials, never the credentials themselves
+		accounts: Object.fromEntries(getAccounts(env)),
+		virtualBuckets: getVirtualBuckets(env).map((virtualBucket) => ({
+			...virtualBucket,
+			resharding: virtualBucket.previousPool !== null,
+		})),
+	});
+}
+
+// GET /_admin/health - list one key of every physical bucket. Answers 503 when any bucket is unhealthy.
+async function handleHealth(env: Env): Promise<Response> {
+	const buckets = [...new Set(getVirtualBuckets(env).flatMap(getListingBuckets))];
+	const params = new URLSearchParams({ 'list-type': '2', 'max-keys': '1' });
+	const results = await Promise.all(
+		buckets.map(async (bucket) => {
+			const start = Date.now();
+			try {
+				const resp = await sendR2Request('GET', bucket, '/', env, params);
+				await resp.body?.cancel();
+				return { bucket, healthy: resp.ok, status: resp.status, latencyMs: Date.now() - start };
+			} catch (error) {
+				return { bucket, healthy: false, error: String(error), latencyMs: Date.now() - start };
+			}
+		})
+	);
+
+	const healthy = results.every((result) => result.healthy);
+	return json({ healthy, buckets: results }, healthy ? 200 : 503);
+}
+
+// Route a request for ADMIN_BUCKET, where the key names the route
+export async function handleAdminRequest(req: Request, url: URL, route: string, env: Env): Promise<Response> {
+	if (!(await isAdmin(req, env))) {
+		return json({ error: 'A valid admin token is required' }, 401);
+	}
+	if (req.method !== 'GET') {
+		return json({ error: 'Method not allowed' }, 405);
+	}
+
+	switch (route) {
+		case 'locate':
+			return handleLocate(url, env);
+		case 'config':
+			return handleConfig(env);
+		case 'health':
+			return handleHealth(env);
+		default:
+			return json({ error: 'Not found' }, 404);
+	}
+}
@@ -0,0 +1,376 @@
+import { AccessPolicy } from './policy';
+import {
+	accessDenied,
+	authorizationHeaderMalformed,
+	contentSha256Mismatch,
+	invalidAccessKeyId,
+	invalidArgument,
+	requestTimeTooSkewed,
+	signatureDoesNotMatch,
+} from './errors';
+import {
+	buildCanonicalRequest,
+	buildStringToSign,
+	CanonicalRequestParts,
+	formatAmzDate,
+	getSigningKey,
+	hmac,
+	parseAmzDate,
+	sha256Hex,
+	signaturesEqual,
+	SIGV4_ALGORITHM,
+} from './sigv4';
+import { toHex } from './r2';
+
+// A client access key. A null policy grants full access, as for the CLIENT_ACCESS_KEY/CLIENT_SECRET_KEY pair.
+export interface ClientCredential {
+	accessKeyId: string;
+	secretAccessKey: string;
+	policy: AccessPolicy | null;
+}
+
+// The outcome of verifying a request: the credential that signed it, or the S3 error to answer with
+export type VerificationResult = { credential: ClientCredential } | { error: Response };
+
+// How a credential is stored in the CREDENTIALS secret (keyed by access key) or as a CREDENTIALS_KV value
+interface StoredCredential {
+	secretAccessKey: string;
+	policy?: AccessPolicy;
+}
+
+function toCredential(accessKeyId: string, stored: StoredCredential | null | undefined): ClientCredential | null {
+	if (!stored || typeof stored.secretAccessKey !== 'string') {
+		return null;
+	}
+	return { accessKeyId, secretAccessKey: stored.secretAccessKey, policy: stored.policy ?? null };
+}
+
+// Find the credential for an access key. The CREDENTIALS_KV namespace is checked first, then the
+// CREDENTIALS secret, then the legacy CLIENT_ACCESS_KEY/CLIENT_SECRET_KEY pair.
+async function lookupCredential(accessKeyId: string, env: Env): Promise<ClientCredential | null> {
+	if (env.CREDENTIALS_KV) {
+		const stored = await env.CREDENTIALS_KV.get<StoredCredential>(accessKeyId, { type: 'json', cacheTtl: 60 });
+		if (stored) {
+			return toCredential(accessKeyId, stored);
+		}
+	}
+
+	if (env.CREDENTIALS) {
+		const store = JSON.parse(env.CREDENTIALS) as Record<string, StoredCredential>;
+		if (Object.prototype.hasOwnProperty.call(store, accessKeyId)) {
+			return toCredential(accessKeyId, store[accessKeyId]);
+		}
+	}
+
+	if (env.CLIENT_ACCESS_KEY && accessKeyId === env.CLIENT_ACCESS_KEY) {
+		return { accessKeyId, secretAccessKey: env.CLIENT_SECRET_KEY, policy: null };
+	}
+
+	return null;
+}
+
+// Parse Authorization header to extract signature components
+export function parseAuthorizationHeader(authHeader: string) {
+	const match = authHeader.match(/^AWS4-HMAC-SHA256 Credential=([^,]+),\s*SignedHeaders=([^,]+),\s*Signature=(.+)$/);
+	if (!match) {
+		throw new Error('Invalid Authorization header format');
+	}
+
+	const [, credential, signedHeaders, signature] = match;
+	const [accessKeyId, ...credentialParts] = credential.split('/');
+	const [dateStamp, region, service, terminationString] = credentialParts;
+
+	return {
+		accessKeyId,
+		dateStamp,
+		region,
+		service,
+		terminationString,
+		signedHeaders: signedHeaders.split(';'),
+		signature,
+	};
+}
+
+// How far a signed request's time may be from ours, as in S3
+const MAX_CLOCK_SKEW = 15 * 60 * 1000;
+
+// SigV4 caps presigned URL lifetimes at one week
+const MAX_PRESIGNED_EXPIRES = 7 * 24 * 60 * 60;
+
+// Regions a request may be signed for. R2 signs with `auto`, and treats `us-east-1` as an alias of it.
+const SIGNING_REGIONS = ['auto', 'us-east-1'];
+
+// Query parameters that carry a presigned URL's signature. They must not be forwarded to R2.
+const PRESIGN_QUERY_PARAMS = [
+	'X-Amz-Algorithm',
+	'X-Amz-Credential',
+	'X-Amz-Date',
+	'X-Amz-Expires',
+	'X-Amz-SignedHeaders',
+	'X-Amz-Signature',
+	'X-Amz-Security-Token',
+];
+
+// Log why a request was rejected and answer with its error. The reason never includes credentials or request data.
+function reject(reason: string, error: Response): VerificationResult {
+	console.log(`Rejected request: ${reason}`);
+	return { error };
+}
+
+// Check the credential scope of a signature: signed on the request's date, for a region R2 answers to and for S3
+function checkScope(dateStamp: string, region: string, service: string, amzDate: string): VerificationResult | null {
+	if (dateStamp !== amzDate.slice(0, 8)) {
+		return reject(
+			'credential date does not match the request date',
+			authorizationHeaderMalformed('Invalid credential date. Date is not the same as X-Amz-Date.')
+		);
+	}
+	if (!SIGNING_REGIONS.includes(region)) {
+		return reject(
+			'signed for another region',
+			authorizationHeaderMalformed(`the region '${region}' is wrong; expecting '${SIGNING_REGIONS[0]}'`, { Region: SIGNING_REGIONS[0] })
+		);
+	}
+	if (service !== 's3') {
+		return reject(
+			'signed for another service',
+			authorizationHeaderMalformed(`incorrect service '${service}'. This endpoint belongs to 's3'.`)
+		);
+	}
+	return null;
+}
+
+// The signed headers with the values they were received with. Host is always signed, and requests built in
+// code may not carry it as a header, so it falls back to the URL's.
+function collectSignedHeaders(req: Request, signedHeaders: string[]): [string, string][] | null {
+	const headers: [string, string][] = [];
+	for (const name of signedHeaders) {
+		const value = req.headers.get(name) ?? (name === 'host' ? new URL(req.url).host : null);
+		if (value === null) {
+			return null;
+		}
+		headers.push([name, value]);
+	}
+	return headers;
+}
+
+// Compute the signature of the request as received and compare it with the one the client sent
+async function checkSignature(
+	credential: ClientCredential,
+	scope: { dateStamp: string; region: string; service: string },
+	amzDate: string,
+	parts: CanonicalRequestParts,
+	signature: string
+): Promise<VerificationResult> {
+	const canonicalRequest = buildCanonicalRequest(parts);
+	const credentialScope = `${scope.dateStamp}/${scope.region}/${scope.service}/aws4_request`;
+	const stringToSign = await buildStringToSign(amzDate, credentialScope, canonicalRequest);
+	const signingKey = await getSigningKey(credential.secretAccessKey, scope.dateStamp, scope.region, scope.service);
+	const expected = toHex(await hmac(signingKey, stringToSign));
+
+	if (!signaturesEqual(expected, signature)) {
+		return reject(
+			'signature mismatch',
+			signatureDoesNotMatch({
+				AWSAccessKeyId: credential.accessKeyId,
+				StringToSign: stringToSign,
+				SignatureProvided: signature,
+				CanonicalRequest: canonicalRequest,
+			})
+		);
+	}
+	return { credential };
+}
+
+// The payload hash a header-signed request was signed with. A buffered body is checked against the hash the
+// client sent; a streamed one is checked by R2, or chunk by chunk for aws-chunked payloads.
+async function resolvePayloadHash(req: Request, bodyContent?: ArrayBuffer): Promise<{ hash: string } | { error: Response }> {
+	const header = req.headers.get('x-amz-content-sha256');
+	if (!bodyContent && header) {
+		return { hash: header };
+	}
+
+	const computed = await sha256Hex(bodyContent ?? new Uint8Array());
+	if (header && /^[0-9a-f]{64}$/.test(header) && header !== computed) {
+		console.log('Rejected request: payload hash does not match the body');
+		return { error: contentSha256Mismatch(header, computed) };
+	}
+	return { hash: header ?? computed };
+}
+
+// Verify the incoming request signature, returning the credential that signed it or the error for a
+// missing, unknown or invalid signature. The canonical request is rebuilt from the request exactly as it
+// was received, so nothing is normalized differently from what the client signed.
+export async function verifySignature(req: Request, env: Env, bodyContent?: ArrayBuffer): Promise<VerificationResult> {
+	try {
+		const authHeader = req.headers.get('authorization');
+		if (!authHeader && new URL(req.url).searchParams.get('X-Amz-Algorithm') === SIGV4_ALGORITHM) {
+			return await verifyPresignedUrl(req, env);
+		}
+
+		if (!authHeader) {
+			return reject('no authorization header', accessDenied());
+		}
+
+		let parsedAuth: ReturnType<typeof parseAuthorizationHeader>;
+		try {
+			parsedAuth = parseAuthorizationHeader(authHeader);
+		} catch (error) {
+			return reject('malformed authorization header', invalidArgument('Unsupported Authorization Type', 'Authorization', authHeader));
+		}
+		if (parsedAuth.terminationString !== 'aws4_request') {
+			return reject('malformed credential', authorizationHeaderMalformed('the Credential is mal-formed.'));
+		}
+
+		const credential = await lookupCredential(parsedAuth.accessKeyId, env);
+		if (!credential) {
+			return reject('unknown access key', invalidAccessKeyId());
+		}
+
+		// A signed request is only valid for a short while, so a captured one cannot be replayed later
+		const dateHeader = req.headers.get('x-amz-date') || req.headers.get('date') || '';
+		const requestTime = parseAmzDate(dateHeader) ?? new Date(dateHeader || NaN);
+		if (Number.isNaN(requestTime.getTime())) {
+			return reject('no request date', accessDenied('AWS authentication requires a valid Date or x-amz-date header'));
+		}
+		if (Math.abs(Date.now() - requestTime.getTime()) > MAX_CLOCK_SKEW) {
+			return reject('request time outside the allowed clock skew', requestTimeTooSkewed(dateHeader));
+		}
+		const amzDate = formatAmzDate(requestTime);
+
+		const scopeError = checkScope(parsedAuth.dateStamp, parsedAuth.region, parsedAuth.service, amzDate);
+		if (scopeError) {
+			return scopeError;
+		}
+
+		if (!parsedAuth.signedHeaders.includes('host')) {
+			return reject('host is not signed', authorizationHeaderMalformed('the Host header must be signed.'));
+		}
+		const headers = collectSignedHeaders(req, parsedAuth.signedHeaders);
+		if (!headers) {
+			return reject('a signed header is missing', signatureDoesNotMatch());
+		}
+
+		const payload = await resolvePayloadHash(req, bodyContent);
+		if ('error' in payload) {
+			return payload;
+		}
+
+		const url = new URL(req.url);
+		return await checkSignature(
+			credential,
+			parsedAuth,
+			amzDate,
+			{ method: req.method, path: url.pathname, query: url.searchParams, headers, payloadHash: payload.hash },
+			parsedAuth.signature
+		);
+	} catch (error) {
+		console.error('Signature verification failed:', error);
+		return { error: signatureDoesNotMatch() };
+	}
+}
+
+// Verify a presigned URL (query-string SigV4), as generated by @aws-sdk/s3-request-presigner. The payload
+// of a presigned request is never signed, so the body is not needed.
+async function verifyPresignedUrl(req: Request, env: Env): Promise<VerificationResult> {
+	const url = new URL(req.url);
+	const params = url.searchParams;
+
+	const [accessKeyId, dateStamp, region, service, terminationString] = (params.get('X-Amz-Credential') || '').split('/');
+	const signature = params.get('X-Amz-Signature');
+	const signedHeaders = (params.get('X-Amz-SignedHeaders') || '').split(';').filter(Boolean);
+	const amzDate = params.get('X-Amz-Date') || '';
+	const signingDate = parseAmzDate(amzDate);
+	const expiresIn = Number(params.get('X-Amz-Expires'));
+
+	if (!accessKeyId || !region || !service || terminationString !== 'aws4_request' || !signature || !signingDate) {
+		return reject(
+			'malformed presigned URL',
+			invalidArgument(
+				'Query-string authentication requires the X-Amz-Algorithm, X-Amz-Credential, X-Amz-Signature, X-Amz-Date, X-Amz-SignedHeaders, and X-Amz-Expires parameters.',
+				'X-Amz-Credential'
+			)
+		);
+	}
+
+	// The credential scope must be for the day the URL was signed
+	if (dateStamp !== amzDate.slice(0, 8)) {
+		return reject(
+			'presigned URL credential scope does not match X-Amz-Date',
+			invalidArgument('Invalid credential date. Date is not the same as X-Amz-Date.', 'X-Amz-Credential')
+		);
+	}
+	const scopeError = checkScope(dateStamp, region, service, amzDate);
+	if (scopeError) {
+		return scopeError;
+	}
+
+	if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > MAX_PRESIGNED_EXPIRES) {
+		return reject(
+			'invalid presigned URL expiry',
+			invalidArgument(
+				'X-Amz-Expires must be less than a week (in seconds) that is 604800',
+				'X-Amz-Expires',
+				params.get('X-Amz-Expires') || ''
+			)
+		);
+	}
+
+	if (signingDate.getTime() - Date.now() > MAX_CLOCK_SKEW) {
+		return reject('presigned URL signed in the future', accessDenied('Request is not valid yet'));
+	}
+	if (Date.now() > signingDate.getTime() + expiresIn * 1000) {
+		return reject('presigned URL expired', accessDenied('Request has expired'));
+	}
+
+	const credential = await lookupCredential(accessKeyId, env);
+	if (!credential) {
+		return reject('unknown access key', invalidAccessKeyId());
+	}
+
+	if (!signedHeaders.includes('host')) {
+		return reject('host is not signed', invalidArgument('Host must be signed.', 'X-Amz-SignedHeaders'));
+	}
+	const headers = collectSignedHeaders(req, signedHeaders);
+	if (!headers) {
+		return reject('a signed header is missing', signatureDoesNotMatch());
+	}
+
+	// Presigned S3 requests always sign UNSIGNED-PAYLOAD
+	return checkSignature(
+		credential,
+		{ dateStamp, region, service },
+		amzDate,
+		{
+			method: req.method,
+			path: url.pathname,
+			query: params,
+			unsignedParams: ['X-Amz-Signature'],
+			headers,
+			payloadHash: 'UNSIGNED-PAYLOAD',
+		},
+		signature
+	);
+}
+
+// Turn a verified presigned request into the request it stands for: drop the signature parameters and move
+// hoisted x-amz-* parameters (e.g. x-amz-meta-*) back into headers. Other requests are returned unchanged.
+export function unwrapPresignedRequest(req: Request): Request {
+	const url = new URL(req.url);
+	if (!url.searchParams.has('X-Amz-Signature')) {
+		return req;
+	}
+
+	const headers = new Headers(req.headers);
+	for (const name of [...url.searchParams.keys()]) {
+		if (PRESIGN_QUERY_PARAMS.includes(name)) {
+			url.searchParams.delete(name);
+		} else if (name.toLowerCase().startsWith('x-amz-')) {
+			headers.set(name, url.searchParams.get(name)!);
+			url.searchParams.delete(name);
+		}
+	}
+
+	// A buffered body has already been read by the caller, a streamed one carries over
+	return new Request(url.toString(), { method: req.method, headers, body: req.bodyUsed ? null : req.body });
+}
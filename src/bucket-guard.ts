@@ -0,0 +1,213 @@
+import { DurableObject } from 'cloudflare:workers';
+import { BackendError } from './errors';
+
+// Requests a physical bucket may have in flight across all isolates. R2 throttles a bucket at around 400
+// requests per second, so this keeps bursts well under that.
+const MAX_CONCURRENCY = 64;
+// Bucket-level list requests may only take this many of the slots, so a large merged listing cannot starve
+// ordinary object requests
+const MAX_LIST_CONCURRENCY = 8;
+// A slot whose release never arrives (e.g. the isolate was evicted mid-request) is reclaimed after this long
+const LEASE_MS = 60_000;
+// How long a request waits for a free slot before failing with ServiceUnavailable
+const MAX_QUEUE_MS = 5_000;
+
+// Consecutive failures (429, 5xx or an unreachable bucket) that open a bucket's circuit breaker
+const FAILURE_THRESHOLD = 5;
+// How long an open circuit fails requests without sending them, before letting one probe through
+const OPEN_MS = 10_000;
+
+// Attempts per request, including the first, when the request can be replayed
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 100;
+const MAX_DELAY_MS = 2_000;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+// Lists have their own, smaller share of a bucket's slots
+export type RequestLane = 'object' | 'list';
+
+// Why a request was failed without being sent
+export type RejectReason = 'open' | 'busy';
+
+// A granted slot, or why none was granted. An open circuit says until when it stays open.
+export type SlotResult = { lease: string } | { rejected: 'open'; openUntil: number } | { rejected: 'busy' };
+
+interface Lease {
+	lane: RequestLane;
+	expiresAt: number;
+	// Sent while the circuit was half-open: its outcome closes or re-opens the circuit
+	probe: boolean;
+}
+
+interface Waiter {
+	lane: RequestLane;
+	resolve: (result: SlotResult) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+// The circuit breaker and concurrency limiter of one physical bucket, named after it. The state is only kept in
+// memory: if the object is evicted, the bucket starts again with a closed circuit and no requests in flight.
+export class BucketGuard extends DurableObject<Env> {
+	private leases = new Map<string, Lease>();
+	private waiters: Waiter[] = [];
+	private failures = 0;
+	private openUntil = 0;
+
+	// Wait for a slot in the lane. Fails at once while the circuit is open.
+	async acquire(lane: RequestLane): Promise<SlotResult> {
+		this.expireLeases();
+
+		const now = Date.now();
+		if (this.failures >= FAILURE_THRESHOLD) {
+			// Open, or half-open with its probe still in flight
+			if (now < this.openUntil || [...this.leases.values()].some((lease) => lease.probe)) {
+				return { rejected: 'open', openUntil: this.openUntil };
+			}
+			return { lease: this.grant(lane, true) };
+		}
+
+		// Waiters are handed slots as soon as they free up, so a free slot means none is waiting in this lane
+		if (this.hasCapacity(lane)) {
+			return { lease: this.grant(lane, false) };
+		}
+
+		return new Promise<SlotResult>((resolve) => {
+			const waiter: Waiter = {
+				lane,
+				resolve,
+				timer: setTimeout(() => {
+					this.waiters = this.waiters.filter((w) => w !== waiter);
+					resolve({ rejected: 'busy' });
+				}, MAX_QUEUE_MS),
+			};
+			this.waiters.push(waiter);
+		});
+	}
+
+	// Give a slot back, recording whether its request succeeded
+	release(lease: string, succeeded: boolean): void {
+		const released = this.leases.get(lease);
+		this.leases.delete(lease);
+
+		if (succeeded) {
+			this.failures = 0;
+		} else {
+			this.failures++;
+			if (this.failures >= FAILURE_THRESHOLD && (released?.probe || this.failures === FAILURE_THRESHOLD)) {
+				this.openUntil = Date.now() + OPEN_MS;
+			}
+		}
+
+		this.drain();
+	}
+
+	private hasCapacity(lane: RequestLane): boolean {
+		if (this.leases.size >= MAX_CONCURRENCY) return false;
+		if (lane === 'list') {
+			return [...this.leases.values()].filter((lease) => lease.lane === 'list').length < MAX_LIST_CONCURRENCY;
+		}
+		return true;
+	}
+
+	private grant(lane: RequestLane, probe: boolean): string {
+		const lease = crypto.randomUUID();
+		this.leases.set(lease, { lane, expiresAt: Date.now() + LEASE_MS, probe });
+		return lease;
+	}
+
+	// Hand freed slots to waiters in arrival order. A list waiter that is over its share does not hold up
+	// object requests queued behind it.
+	private drain(): void {
+		const tripped = this.failures >= FAILURE_THRESHOLD;
+		for (const waiter of [...this.waiters]) {
+			if (!tripped && !this.hasCapacity(waiter.lane)) continue;
+			this.waiters = this.waiters.filter((w) => w !== waiter);
+			clearTimeout(waiter.timer);
+			waiter.resolve(tripped ? { rejected: 'open', openUntil: this.openUntil } : { lease: this.grant(waiter.lane, false) });
+		}
+	}
+
+	private expireLeases(): void {
+		const now = Date.now();
+		for (const [id, lease] of this.leases) {
+			if (lease.expiresAt <= now) this.leases.delete(id);
+		}
+	}
+}
+
+// Whether a request can be sent again after a failed attempt. Streamed bodies are consumed by the first attempt.
+// POST is only retried for DeleteObjects, since creating or completing a multipart upload twice is not the same
+// as doing it once.
+export function isReplayable(method: string, queryParams: URLSearchParams | undefined, body?: ArrayBuffer | ReadableStream): boolean {
+	if (body instanceof ReadableStream) return false;
+	if (method === 'POST') return queryParams?.has('delete') ?? false;
+	return true;
+}
+
+// Full jitter exponential backoff, or the bucket's Retry-After when it sends one
+function retryDelay(attempt: number, response?: Response): number {
+	const retryAfter = Number(response?.headers.get('retry-after'));
+	if (retryAfter > 0) {
+		return Math.min(retryAfter * 1000, MAX_DELAY_MS);
+	}
+	return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+// Circuits this isolate has seen open, by bucket, with the time they stay open until. Requests to them fail
+// without asking the guard, so an outage does not also cost a Durable Object request per attempt.
+const openCircuits = new Map<string, number>();
+
+function rejectedError(bucketName: string, reason: RejectReason): BackendError {
+	const message = reason === 'open' ? 'its circuit breaker is open' : 'it has too many requests in flight';
+	return new BackendError(bucketName, 503, `Bucket ${bucketName} is unavailable: ${message}`);
+}
+
+// Send a request to a physical bucket through its guard: wait for a slot, fail fast while its circuit is open,
+// and retry throttled or failed attempts with backoff when the request can be replayed. The slot is held until
+// the response headers arrive. A request that still fails returns the bucket's last response, or throws.
+// onRejected is called for every attempt that is failed without being sent.
+export async function guardBackendRequest(
+	bucketName: string,
+	lane: RequestLane,
+	replayable: boolean,
+	env: Env,
+	onRejected: (reason: RejectReason) => void,
+	send: () => Promise<Response>
+): Promise<Response> {
+	const guard = env.BUCKET_GUARD.get(env.BUCKET_GUARD.idFromName(bucketName));
+
+	for (let attempt = 1; ; attempt++) {
+		if ((openCircuits.get(bucketName) ?? 0) > Date.now()) {
+			onRejected('open');
+			throw rejectedError(bucketName, 'open');
+		}
+		openCircuits.delete(bucketName);
+
+		const slot = await guard.acquire(lane);
+		if ('rejected' in slot) {
+			if (slot.rejected === 'open') openCircuits.set(bucketName, slot.openUntil);
+			onRejected(slot.rejected);
+			throw rejectedError(bucketName, slot.rejected);
+		}
+
+		let response: Response | undefined;
+		let error: unknown;
+		try {
+			response = await send();
+		} catch (e) {
+			error = e;
+		}
+		const failed = response === undefined || RETRYABLE_STATUSES.has(response.status);
+		await guard.release(slot.lease, !failed);
+
+		if (!failed || !replayable || attempt === MAX_ATTEMPTS) {
+			if (response) return response;
+			throw error;
+		}
+
+		console.warn(`Attempt ${attempt} to bucket ${bucketName} failed with ${response?.status ?? error}, retrying`);
+		await response?.body?.cancel();
+		await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt, response)));
+	}
+}
@@ -0,0 +1,133 @@
+import { VirtualBucket } from './placement';
+import { encodePath } from './addressing';
+import { encryptionKeyName } from './encryption';
+
+const CACHE_NAME = 'r2-multiplex';
+// The Cache API does not store objects larger than this
+const MAX_CACHED_BYTES = 512 * 1024 * 1024;
+// Stored copies carry the cache TTL in Cache-Control, so the object's own Cache-Control is kept under this
+// header and restored on a hit
+const ORIGINAL_CACHE_CONTROL = 'x-multiplex-cache-control';
+
+// Request headers the Cache API evaluates against a stored response: ranges, and the conditionals it answers
+// with 304. Other conditionals (If-Match, If-Unmodified-Since) bypass the cache.
+const MATCHED_HEADERS = ['range', 'if-none-match', 'if-modified-since'];
+const BYPASS_HEADERS = ['if-match', 'if-unmodified-since'];
+// Query parameters that leave the object read unchanged. The SDKs add x-id to name the operation.
+const CACHEABLE_PARAMS = ['x-id'];
+
+// How long a key's reads are cached: the ttl of the longest matching cache rule, or 0 when none matches
+export function cacheTtl(virtualBucket: VirtualBucket, key: string): number {
+	let ttl = 0;
+	let matched = -1;
+	for (const rule of virtualBucket.cache) {
+		if (key.startsWith(rule.prefix) && rule.prefix.length > matched) {
+			ttl = rule.ttl;
+			matched = rule.prefix.length;
+		}
+	}
+	return ttl;
+}
+
+// The cache entry of a key. It is independent of the host and signature of the request, so every client
+// reading the key shares it.
+function cacheKey(virtualBucket: VirtualBucket, key: string): string {
+	return `https://${CACHE_NAME}.cache/${encodeURIComponent(virtualBucket.name)}/${encodePath(key)}`;
+}
+
+// SSE-C objects can only be read with their key, so neither requests nor responses for them are cached
+function usesCustomerKey(headers: Headers): boolean {
+	return headers.has('x-amz-server-side-encryption-customer-algorithm');
+}
+
+function isCacheableRequest(req: Request, url: URL): boolean {
+	return (
+		[...url.searchParams.keys()].every((name) => CACHEABLE_PARAMS.includes(name)) &&
+		!BYPASS_HEADERS.some((name) => req.headers.has(name)) &&
+		!usesCustomerKey(req.headers)
+	);
+}
+
+function isCacheableResponse(resp: Response): boolean {
+	const cacheControl = resp.headers.get('cache-control')?.toLowerCase() ?? '';
+	return (
+		resp.status === 200 &&
+		Number(resp.headers.get('content-length')) <= MAX_CACHED_BYTES &&
+		!/\b(private|no-store)\b/.test(cacheControl) &&
+		!usesCustomerKey(resp.headers)
+	);
+}
+
+// Serve a GET or HEAD from the edge cache when the key has a cache TTL, or forward it. The Cache API answers
+// ranges and If-None-Match/If-Modified-Since from a stored object itself. Only full GETs fill the cache, in the
+// background so the response streams to the client meanwhile. Keys under an encryption rule are never cached,
+// since the cache would hold their plaintext.
+export async function readThroughCache(
+	req: Request,
+	url: URL,
+	virtualBucket: VirtualBucket,
+	key: string,
+	ctx: ExecutionContext,
+	forward: () => Promise<Response>
+): Promise<Response> {
+	const ttl = cacheTtl(virtualBucket, key);
+	if (ttl === 0 || encryptionKeyName(virtualBucket, key) || !isCacheableRequest(req, url)) {
+		return forward();
+	}
+
+	const cache = await caches.open(CACHE_NAME);
+	const lookup = new Request(cacheKey(virtualBucket, key));
+	for (const name of MATCHED_HEADERS) {
+		const value = req.headers.get(name);
+		if (value) lookup.headers.set(name, value);
+	}
+
+	const cached = await cache.match(lookup);
+	if (cached) {
+		const headers = new Headers(cached.headers);
+		headers.delete('cache-control');
+		const cacheControl = headers.get(ORIGINAL_CACHE_CONTROL);
+		if (cacheControl) headers.set('cache-control', cacheControl);
+		headers.delete(ORIGINAL_CACHE_CONTROL);
+		return new Response(req.method === 'HEAD' ? null : cached.body, { status: cached.status, headers });
+	}
+
+	const resp = await forward();
+	const isFullRead = req.method === 'GET' && !MATCHED_HEADERS.some((name) => req.headers.has(name));
+	if (!isFullRead || !isCacheableResponse(resp)) {
+		return resp;
+	}
+
+	const [body, stored] = resp.body!.tee();
+	const headers = new Headers(resp.headers);
+	const cacheControl = headers.get('cache-control');
+	if (cacheControl) headers.set(ORIGINAL_CACHE_CONTROL, cacheControl);
+	headers.set('cache-control', `s-maxage=${ttl}`);
+	ctx.waitUntil(
+		cache.put(lookup, new Response(stored, { status: 200, headers })).catch((error) => console.error(`Failed to cache ${key}:`, error))
+	);
+	return new Response(body, resp);
+}
+
+// Drop keys from the edge cache after they were written or deleted. Buckets without cache rules have nothing
+// cached, so they skip the Cache API.
+export async function purgeCachedKeys(virtualBucket: VirtualBucket, keys: string[]): Promise<void> {
+	if (virtualBucket.cache.length === 0 || keys.length === 0) {
+		return;
+	}
+	const cache = await caches.open(CACHE_NAME);
+	await Promise.all(keys.map((key) => cache.delete(cacheKey(virtualBucket, key))));
+}
+
+// Purge a key after a successful PutObject, CopyObject, CompleteMultipartUpload or DeleteObject, including
+// deletes of a version, which can change the current object
+export async function purgeWrite(req: Request, url: URL, virtualBucket: VirtualBucket, key: string, resp: Response): Promise<void> {
+	const params = url.searchParams;
+	const isWrite =
+		(req.method === 'PUT' && !params.has('uploadId')) ||
+		(req.method === 'POST' && params.has('uploadId')) ||
+		(req.method === 'DELETE' && !params.has('uploadId'));
+	if (isWrite && resp.ok) {
+		await purgeCachedKeys(virtualBucket, [key]);
+	}
+}
@@ -0,0 +1,262 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import { sendR2Request } from './r2';
+import { getVirtualBucket, placeKey, placePreviousKey, VirtualBucket } from './placement';
+import { forwardWithReshard } from './reshard';
+import { accessDenied, noSuchBucket, s3ErrorResponse } from './errors';
+import { isAllowed } from './policy';
+import { ClientCredential } from './auth';
+import { UNSIGNED_PAYLOAD } from './streaming';
+import { getBucketDescriptor } from './accounts';
+import { readDecrypted, sealUpload } from './encryption';
+
+// Conditional copy headers and the plain conditional headers they become on a GET of the source
+const COPY_CONDITIONS: [string, string][] = [
+	['x-amz-copy-source-if-match', 'if-match'],
+	['x-amz-copy-source-if-none-match', 'if-none-match'],
+	['x-amz-copy-source-if-modified-since', 'if-modified-since'],
+	['x-amz-copy-source-if-unmodified-since', 'if-unmodified-since'],
+];
+
+// Headers that make up an object's metadata, copied from the source unless the metadata directive is REPLACE
+const METADATA_HEADERS = ['content-type', 'content-encoding', 'content-disposition', 'content-language', 'cache-control', 'expires'];
+
+interface CopySource {
+	bucket: string;
+	key: string;
+	versionId: string | null;
+}
+
+// Parse an x-amz-copy-source header: `[/]bucket/key[?versionId=...]`, with the key URL-encoded
+function parseCopySource(value: string): CopySource | null {
+	const [path, query] = value.split('?', 2);
+	const [bucket, ...keyParts] = path.replace(/^\//, '').split('/');
+	let key: string;
+	try {
+		key = decodeURIComponent(keyParts.join('/'));
+	} catch (error) {
+		return null;
+	}
+	if (!bucket || !key) {
+		return null;
+	}
+	return { bucket, key, versionId: new URLSearchParams(query).get('versionId') };
+}
+
+function isMetadataHeader(name: string): boolean {
+	return METADATA_HEADERS.includes(name) || name.startsWith('x-amz-meta-');
+}
+
+// Find the physical bucket holding a copy source. While re-sharding it may not have been migrated yet.
+async function locateSource(source: CopySource, virtualBucket: VirtualBucket, env: Env): Promise<string> {
+	const bucket = await placeKey(virtualBucket, source.key);
+	const previousBucket = (await placePreviousKey(virtualBucket, source.key)) ?? bucket;
+	if (previousBucket === bucket) {
+		return bucket;
+	}
+
+	const params = new URLSearchParams();
+	if (source.versionId) params.set('versionId', source.versionId);
+	const head = await sendR2Request('HEAD', bucket, `/${source.key}`, env, params);
+	return head.status === 404 ? previousBucket : bucket;
+}
+
+// Handle CopyObject and UploadPartCopy (a PUT with x-amz-copy-source). The copy source names a virtual
+// bucket, so it is rewritten to the physical bucket holding the source key. When that is also the
+// destination's bucket R2 copies server-side; otherwise the source is streamed into the destination. Copies
+// involving a bucket with encryption rules are always streamed, to decrypt the source and encrypt the copy.
+export async function handleCopy(
+	req: Request,
+	virtualBucket: VirtualBucket,
+	key: string,
+	url: URL,
+	credential: ClientCredential,
+	env: Env
+): Promise<Response> {
+	const source = parseCopySource(req.headers.get('x-amz-copy-source')!);
+	if (!source) {
+		return s3ErrorResponse('InvalidArgument', 'Copy Source must mention the source bucket and key: sourcebucket/sourcekey', 400, {
+			ArgumentName: 'x-amz-copy-source',
+		});
+	}
+
+	// The credential must be able to read the source, not just write the destination
+	const action = source.versionId ? 'GetObjectVersion' : 'GetObject';
+	if (!isAllowed(credential.policy, { action, bucket: source.bucket, key: source.key })) {
+		return accessDenied();
+	}
+
+	const sourceVirtualBucket = getVirtualBucket(env, source.bucket);
+	if (!sourceVirtualBucket) {
+		return noSuchBucket(source.bucket);
+	}
+
+	const sourceBucket = await locateSource(source, sourceVirtualBucket, env);
+	const destinationBucket = await placeKey(virtualBucket, key);
+
+	const encrypted = sourceVirtualBucket.encryption.length > 0 || virtualBucket.encryption.length > 0;
+	if (sourceBucket === destinationBucket && !encrypted) {
+		const headers = new Headers(req.headers);
+		const versionQuery = source.versionId ? `?versionId=${encodeURIComponent(source.versionId)}` : '';
+		headers.set('x-amz-copy-source', `/${sourceBucket}/${encodeURIComponent(source.key)}${versionQuery}`);
+		return forwardWithReshard(new Request(req.url, { method: req.method, headers }), virtualBucket, key, url, env);
+	}
+
+	return streamCopy(req, source, sourceBucket, virtualBucket, key, url, env);
+}
+
+// Copy between physical buckets by streaming a GET of the source into a PUT (or UploadPart) of the
+// destination, and answer with the CopyObjectResult (or CopyPartResult) R2 would have returned
+async function streamCopy(
+	req: Request,
+	source: CopySource,
+	sourceBucket: string,
+	virtualBucket: VirtualBucket,
+	key: string,
+	url: URL,
+	env: Env
+): Promise<Response> {
+	const isPartCopy = url.searchParams.has('uploadId');
+
+	const getParams = new URLSearchParams();
+	if (source.versionId) getParams.set('versionId', source.versionId);
+	const getHeaders = new Headers();
+	for (const [copyHeader, header] of COPY_CONDITIONS) {
+		const value = req.headers.get(copyHeader);
+		if (value) getHeaders.set(header, value);
+	}
+	const range = req.headers.get('x-amz-copy-source-range');
+	if (range && isPartCopy) {
+		getHeaders.set('range', range);
+	}
+
+	const sourceResp = await readDecrypted(new Request(req.url, { headers: getHeaders }), env, (read) =>
+		sendR2Request('GET', sourceBucket, `/${source.key}`, env, getParams, read.headers)
+	);
+	if (sourceResp.status === 304 || sourceResp.status === 412) {
+		await sourceResp.body?.cancel();
+		return s3ErrorResponse('PreconditionFailed', 'At least one of the pre-conditions you specified did not hold', 412);
+	}
+	if (!sourceResp.ok || !sourceResp.body) {
+		return sourceResp;
+	}
+
+	// Build the destination request from the client's, minus the copy instructions. Unless the client asked to
+	// REPLACE it, the metadata comes from the source like it would in a server-side copy.
+	const headers = new Headers();
+	const replaceMetadata = req.headers.get('x-amz-metadata-directive')?.toUpperCase() === 'REPLACE';
+	for (const [name, value] of req.headers) {
+		if (name.startsWith('x-amz-copy-source') || name === 'x-amz-metadata-directive' || name === 'content-length') continue;
+		if (!replaceMetadata && isMetadataHeader(name)) continue;
+		headers.set(name, value);
+	}
+	if (!replaceMetadata && !isPartCopy) {
+		for (const [name, value] of sourceResp.headers) {
+			if (isMetadataHeader(name)) headers.set(name, value);
+		}
+	}
+
+	const length = Number(sourceResp.headers.get('content-length'));
+	headers.set('content-length', String(length));
+	const body = new FixedLengthStream(length);
+	// A decrypted source is a FixedLengthStream itself, which the runtime cannot pipe into another one directly
+	sourceResp.body
+		.pipeThrough(new TransformStream())
+		.pipeTo(body.writable)
+		.catch((error) => console.error('Streamed copy failed:', error));
+
+	const destinationReq = new Request(req.url, { method: 'PUT', headers });
+	const upload = isPartCopy
+		? { req: destinationReq, body: body.readable, payloadHash: UNSIGNED_PAYLOAD }
+		: await sealUpload(destinationReq, virtualBucket, key, body.readable, UNSIGNED_PAYLOAD, env);
+	if ('error' in upload) {
+		return upload.error;
+	}
+	const destinationResp = await forwardWithReshard(upload.req, virtualBucket, key, url, env, upload.body, upload.payloadHash);
+	if (!destinationResp.ok) {
+		return destinationResp;
+	}
+	await destinationResp.body?.cancel();
+
+	return copyResult(isPartCopy ? 'CopyPartResult' : 'CopyObjectResult', sourceResp, destinationResp);
+}
+
+// Answer a streamed copy with the CopyObjectResult (or CopyPartResult) R2 would have returned
+function copyResult(root: string, sourceResp: Response, destinationResp: Response): Response {
+	const builder = new XMLBuilder({
+		ignoreAttributes: false,
+		format: true,
+	});
+
+	const xmlResponse = builder.build({
+		'?xml': { '@_version': '1.0', '@_encoding': 'UTF-8' },
+		[root]: {
+			'@_xmlns': 'http://s3.amazonaws.com/doc/2006-03-01/',
+			LastModified: new Date(destinationResp.headers.get('date') || Date.now()).toISOString(),
+			ETag: destinationResp.headers.get('etag') || '',
+		},
+	});
+
+	const responseHeaders = new Headers({
+		'Content-Type': 'application/xml',
+		'x-amz-request-id': crypto.randomUUID(),
+	});
+	const sourceVersion = sourceResp.headers.get('x-amz-version-id');
+	if (sourceVersion) responseHeaders.set('x-amz-copy-source-version-id', sourceVersion);
+	const version = destinationResp.headers.get('x-amz-version-id');
+	if (version) responseHeaders.set('x-amz-version-id', version);
+
+	return new Response(xmlResponse, {
+		headers: responseHeaders,
+		status: 200,
+	});
+}
+
+// Whether a CopyObject between physical buckets crosses accounts or endpoints, which R2 cannot copy
+// server-side. Part copies between buckets are always streamed by handleCopy.
+export function isCrossAccountCopy(bucketName: string, params: URLSearchParams | undefined, headers: Headers, env: Env): boolean {
+	const source = parseCopySource(headers.get('x-amz-copy-source') ?? '');
+	if (!source || source.bucket === bucketName || params?.has('uploadId')) {
+		return false;
+	}
+	return getBucketDescriptor(env, source.bucket).account !== getBucketDescriptor(env, bucketName).account;
+}
+
+// Copy an object from a physical bucket of another account by streaming a GET of the source into a PUT,
+// keeping its metadata unless the directive is REPLACE. Re-sharding and replication copy this way when their
+// buckets are in different accounts.
+export async function copyAcrossAccounts(bucketName: string, path: string, headers: Headers, env: Env): Promise<Response> {
+	const source = parseCopySource(headers.get('x-amz-copy-source')!)!;
+	const getParams = new URLSearchParams();
+	if (source.versionId) getParams.set('versionId', source.versionId);
+	const getHeaders = new Headers();
+	for (const [copyHeader, header] of COPY_CONDITIONS) {
+		const value = headers.get(copyHeader);
+		if (value) getHeaders.set(header, value);
+	}
+
+	const sourceResp = await sendR2Request('GET', source.bucket, `/${source.key}`, env, getParams, getHeaders);
+	if (sourceResp.status === 304 || sourceResp.status === 412) {
+		await sourceResp.body?.cancel();
+		return s3ErrorResponse('PreconditionFailed', 'At least one of the pre-conditions you specified did not hold', 412);
+	}
+	if (!sourceResp.ok || !sourceResp.body) {
+		return sourceResp;
+	}
+
+	const putHeaders = new Headers();
+	const replaceMetadata = headers.get('x-amz-metadata-directive')?.toUpperCase() === 'REPLACE';
+	for (const [name, value] of replaceMetadata ? headers : sourceResp.headers) {
+		if (isMetadataHeader(name)) putHeaders.set(name, value);
+	}
+	const length = Number(sourceResp.headers.get('content-length'));
+	putHeaders.set('content-length', String(length));
+	const body = new FixedLengthStream(length);
+	sourceResp.body.pipeTo(body.writable).catch((error) => console.error('Streamed copy failed:', error));
+
+	const destinationResp = await sendR2Request('PUT', bucketName, path, env, undefined, putHeaders, body.readable, UNSIGNED_PAYLOAD);
+	if (!destinationResp.ok) {
+		return destinationResp;
+	}
+	await destinationResp.body?.cancel();
+	return copyResult('CopyObjectResult', sourceResp, destinationResp);
+}
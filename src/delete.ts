@@ -0,0 +1,291 @@
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { sendR2Request, asArray } from './r2';
+import { placeKey, placePreviousKey, VirtualBucket } from './placement';
+import { s3ErrorResponse } from './errors';
+import { isAllowed } from './policy';
+import { ClientCredential } from './auth';
+import { updateIndex } from './listing-index';
+import { isReplicated, replicateToReplicas } from './replication';
+import { purgeCachedKeys } from './cache';
+import { notifyDeletes } from './notifications';
+
+// S3 rejects DeleteObjects requests with more keys than this
+const MAX_DELETE_OBJECTS = 1000;
+
+// Types for DeleteObjects request and response structure
+interface ObjectIdentifier {
+	Key: string;
+	VersionId?: string;
+}
+
+interface DeletedObject {
+	Key: string;
+	VersionId?: string;
+	DeleteMarker?: string;
+	DeleteMarkerVersionId?: string;
+}
+
+interface DeleteError {
+	Key: string;
+	VersionId?: string;
+	Code: string;
+	Message: string;
+}
+
+interface DeleteResult {
+	Deleted?: DeletedObject[];
+	Error?: DeleteError[];
+}
+
+// The outcome of deleting one requested object in one physical bucket
+type DeleteOutcome = { deleted: DeletedObject } | { error: DeleteError };
+
+function objectId(object: ObjectIdentifier): string {
+	return `${object.Key}\n${object.VersionId ?? ''}`;
+}
+
+function base64(buffer: ArrayBuffer): string {
+	return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+// Send one DeleteObjects request to a physical bucket and return the outcome for each object, keyed by
+// objectId. If the whole request fails, every object in it gets the bucket's error.
+async function deleteFromBucket(bucketName: string, objects: ObjectIdentifier[], env: Env): Promise<Map<string, DeleteOutcome>> {
+	const builder = new XMLBuilder({ format: false });
+	const body = new TextEncoder().encode(
+		builder.build({
+			Delete: {
+				Quiet: false,
+				Object: objects,
+			},
+		})
+	).buffer as ArrayBuffer;
+
+	// The client's Content-MD5 covered its own body, so sign this bucket's share with a fresh one
+	const headers = new Headers();
+	headers.set('content-type', 'application/xml');
+	headers.set('content-md5', base64(await crypto.subtle.digest('MD5', body)));
+
+	const params = new URLSearchParams();
+	params.set('delete', '');
+
+	const outcomes = new Map<string, DeleteOutcome>();
+	let response: Response;
+	try {
+		response = await sendR2Request('POST', bucketName, '/', env, params, headers, body);
+	} catch (error) {
+		// Other buckets' results still stand, so this bucket's keys are reported as errors the client can retry
+		console.error(`DeleteObjects failed for bucket ${bucketName}:`, error);
+		for (const object of objects) {
+			outcomes.set(objectId(object), { error: { ...object, Code: 'ServiceUnavailable', Message: 'Please reduce your request rate.' } });
+		}
+		return outcomes;
+	}
+	const xmlText = await response.text();
+	const parser = new XMLParser({
+		// Keep tag values as strings so keys like `0123` or `1e5` are not turned into numbers, and keep
+		// whitespace that is part of a key
+		parseTagValue: false,
+		trimValues: false,
+	});
+
+	if (!response.ok) {
+		console.error(`DeleteObjects failed for bucket ${bucketName}:`, response.status, xmlText);
+		const error = parser.parse(xmlText)?.Error;
+		for (const object of objects) {
+			outcomes.set(objectId(object), {
+				error: { ...object, Code: error?.Code || 'InternalError', Message: error?.Message || response.statusText },
+			});
+		}
+		return outcomes;
+	}
+
+	// Match results back to the requested objects by key, and by version when one was requested, since an
+	// unversioned delete can report the version it removed
+	const result: DeleteResult = parser.parse(xmlText).DeleteResult || {};
+	const resultsByKey = new Map<string, DeleteOutcome[]>();
+	for (const outcome of [
+		...asArray(result.Deleted).map(({ Key, VersionId, DeleteMarker, DeleteMarkerVersionId }) => ({
+			deleted: { Key, VersionId, DeleteMarker, DeleteMarkerVersionId },
+		})),
+		...asArray(result.Error).map(({ Key, VersionId, Code, Message }) => ({ error: { Key, VersionId, Code, Message } })),
+	]) {
+		const { Key } = 'deleted' in outcome ? outcome.deleted : outcome.error;
+		resultsByKey.set(Key, [...(resultsByKey.get(Key) ?? []), outcome]);
+	}
+
+	for (const object of objects) {
+		const outcome = resultsByKey.get(object.Key)?.find((outcome) => {
+			const { VersionId } = 'deleted' in outcome ? outcome.deleted : outcome.error;
+			return !object.VersionId || VersionId === object.VersionId;
+		});
+		if (outcome) outcomes.set(objectId(object), outcome);
+	}
+	return outcomes;
+}
+
+// Handle DeleteObjects (POST ?delete) by splitting the keys by the bucket they hash to, deleting them from
+// each bucket in parallel, and merging the results
+export async function handleDeleteObjects(
+	req: Request,
+	virtualBucket: VirtualBucket,
+	body: ArrayBuffer | undefined,
+	credential: ClientCredential,
+	env: Env,
+	ctx: ExecutionContext
+): Promise<Response> {
+	if (!body) {
+		return s3ErrorResponse(
+			'MalformedXML',
+			'The XML you provided was not well-formed or did not validate against our published schema',
+			400
+		);
+	}
+
+	const contentMd5 = req.headers.get('content-md5');
+	if (contentMd5 && contentMd5 !== base64(await crypto.subtle.digest('MD5', body))) {
+		return s3ErrorResponse('BadDigest', 'The Content-MD5 you specified did not match what we received.', 400);
+	}
+
+	const parser = new XMLParser({
+		parseTagValue: false,
+		trimValues: false,
+	});
+	let objects: ObjectIdentifier[];
+	let quiet: boolean;
+	try {
+		const request = parser.parse(new TextDecoder().decode(body)).Delete;
+		objects = asArray<ObjectIdentifier>(request?.Object).map(({ Key, VersionId }) => (VersionId ? { Key, VersionId } : { Key }));
+		quiet = String(request?.Quiet).trim() === 'true';
+	} catch (error) {
+		objects = [];
+		quiet = false;
+	}
+
+	if (objects.length === 0 || objects.some((object) => typeof object.Key !== 'string' || !object.Key)) {
+		return s3ErrorResponse(
+			'MalformedXML',
+			'The XML you provided was not well-formed or did not validate against our published schema',
+			400
+		);
+	}
+	if (objects.length > MAX_DELETE_OBJECTS) {
+		return s3ErrorResponse('MalformedXML', `The request must contain no more than ${MAX_DELETE_OBJECTS} objects`, 400);
+	}
+
+	// Keys the credential may not delete are reported individually, like S3 does
+	const denied = new Map<string, DeleteOutcome>();
+	const groups = new Map<string, ObjectIdentifier[]>();
+	// Unversioned deletes also remove the stale copy at the previous placement, like a single DELETE
+	const cleanupGroups = new Map<string, ObjectIdentifier[]>();
+	const addToGroup = (target: Map<string, ObjectIdentifier[]>, bucketName: string, object: ObjectIdentifier) => {
+		const group = target.get(bucketName) ?? [];
+		group.push(object);
+		target.set(bucketName, group);
+	};
+
+	for (const object of objects) {
+		const action = object.VersionId ? 'DeleteObjectVersion' : 'DeleteObject';
+		if (!isAllowed(credential.policy, { action, bucket: virtualBucket.name, key: object.Key })) {
+			denied.set(objectId(object), { error: { ...object, Code: 'AccessDenied', Message: 'Access Denied' } });
+			continue;
+		}
+
+		const bucketName = await placeKey(virtualBucket, object.Key);
+		addToGroup(groups, bucketName, object);
+
+		const previousBucket = object.VersionId ? null : await placePreviousKey(virtualBucket, object.Key);
+		if (previousBucket && previousBucket !== bucketName) addToGroup(cleanupGroups, previousBucket, object);
+	}
+
+	const [outcomes, cleanupOutcomes] = await Promise.all(
+		[groups, cleanupGroups].map(async (target) => {
+			const results = await Promise.all([...target].map(([bucketName, group]) => deleteFromBucket(bucketName, group, env)));
+			return new Map(results.flatMap((result) => [...result]));
+		})
+	);
+
+	// Replicated keys are then deleted from their other replicas. Without a majority the key is reported as an
+	// error the client can retry, while the repair job finishes the delete.
+	const replicaFailures = new Set<string>();
+	await Promise.all(
+		objects.map(async (object) => {
+			const outcome = outcomes.get(objectId(object));
+			if (object.VersionId || !outcome || !('deleted' in outcome) || !(await isReplicated(virtualBucket, object.Key))) return;
+			if (!(await replicateToReplicas(virtualBucket, object.Key, 'delete', env))) replicaFailures.add(objectId(object));
+		})
+	);
+
+	// Merge results in request order. A failed cleanup would let reads fall back to the old copy, so it
+	// turns the key into an error the client can retry.
+	const result: DeleteResult = { Deleted: [], Error: [] };
+	const removedKeys: string[] = [];
+	for (const object of objects) {
+		const id = objectId(object);
+		const cleanup = cleanupOutcomes.get(id);
+		let outcome = denied.get(id) ?? outcomes.get(id);
+		if (outcome && 'deleted' in outcome && cleanup && 'error' in cleanup) {
+			outcome = cleanup;
+		}
+		if (outcome && 'deleted' in outcome && replicaFailures.has(id)) {
+			outcome = { error: { ...object, Code: 'ServiceUnavailable', Message: 'Please reduce your request rate.' } };
+		}
+		if (!outcome) {
+			outcome = { error: { ...object, Code: 'InternalError', Message: 'We encountered an internal error. Please try again.' } };
+		}
+
+		if ('deleted' in outcome) {
+			result.Deleted!.push(outcome.deleted);
+			if (!object.VersionId) removedKeys.push(object.Key);
+		} else {
+			result.Error!.push(outcome.error);
+		}
+	}
+
+	// Keys deleted without a version are gone from listings. Deleted versions are left to the reconcile job.
+	try {
+		await updateIndex(
+			virtualBucket,
+			removedKeys.map((key) => ({ key, entry: null })),
+			env
+		);
+	} catch (error) {
+		console.error(`Failed to update the listing index for ${virtualBucket.name}:`, error);
+	}
+
+	// Deleting a version can change the current object too, so every key a bucket deleted leaves the edge cache
+	const deletedKeys = new Set<string>();
+	for (const object of objects) {
+		const outcome = outcomes.get(objectId(object));
+		if (outcome && 'deleted' in outcome) deletedKeys.add(object.Key);
+	}
+	await purgeCachedKeys(virtualBucket, [...deletedKeys]);
+	notifyDeletes(virtualBucket, result.Deleted!, credential.accessKeyId, env, ctx);
+
+	// Quiet mode only reports errors
+	const response: DeleteResult = {
+		Deleted: !quiet && result.Deleted!.length > 0 ? result.Deleted : undefined,
+		Error: result.Error!.length > 0 ? result.Error : undefined,
+	};
+
+	// Convert to XML
+	const builder = new XMLBuilder({
+		ignoreAttributes: false,
+		format: true,
+	});
+
+	const xmlResponse = builder.build({
+		DeleteResult: {
+			'@_xmlns': 'http://s3.amazonaws.com/doc/2006-03-01/',
+			...response,
+		},
+	});
+
+	return new Response(xmlResponse, {
+		headers: {
+			'Content-Type': 'application/xml',
+			'x-amz-request-id': crypto.randomUUID(),
+		},
+		status: 200,
+	});
+}
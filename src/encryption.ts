@@ -0,0 +1,351 @@
+import { VirtualBucket } from './placement';
+import { s3ErrorResponse } from './errors';
+import { toHex } from './r2';
+import { UNSIGNED_PAYLOAD } from './streaming';
+import { getEnvBinding } from './env';
+
+// Objects are encrypted in chunks of this much plaintext, each sealed with AES-256-GCM under the object's own data
+// key, so a range can be read by decrypting only the chunks it covers
+const ENCRYPTION_SCHEME = 'aes-256-gcm-chunked-64k';
+const CHUNK_SIZE = 64 * 1024;
+const TAG_SIZE = 16;
+
+// Metadata the proxy keeps on encrypted objects. Clients cannot set it, and never see it.
+const METADATA_PREFIX = 'x-amz-meta-multiplex-';
+const SCHEME_HEADER = `${METADATA_PREFIX}encryption`;
+const KEY_NAME_HEADER = `${METADATA_PREFIX}encryption-key`;
+const WRAPPED_KEY_HEADER = `${METADATA_PREFIX}wrapped-key`;
+const SIZE_HEADER = `${METADATA_PREFIX}plaintext-size`;
+
+// Checksums of the plaintext that R2 would check against the ciphertext. Content-MD5 and the payload hash are
+// verified here instead, the others are dropped.
+const PLAINTEXT_CHECKSUM_HEADERS = ['content-md5', 'x-amz-sdk-checksum-algorithm'];
+
+// The body and headers to send to R2 for a write
+export interface SealedUpload {
+	req: Request;
+	body?: ArrayBuffer | ReadableStream;
+	payloadHash?: string;
+}
+
+// The name of the master key secret that encrypts a key's objects, or null when they are stored as they are
+export function encryptionKeyName(virtualBucket: VirtualBucket, key: string): string | null {
+	let keyName: string | null = null;
+	let matched = -1;
+	for (const rule of virtualBucket.encryption) {
+		if (key.startsWith(rule.prefix) && rule.prefix.length > matched) {
+			keyName = rule.key;
+			matched = rule.prefix.length;
+		}
+	}
+	return keyName;
+}
+
+function chunkCount(plaintextSize: number): number {
+	return Math.max(1, Math.ceil(plaintextSize / CHUNK_SIZE));
+}
+
+function ciphertextSize(plaintextSize: number): number {
+	return plaintextSize + chunkCount(plaintextSize) * TAG_SIZE;
+}
+
+function toBase64(bytes: ArrayBuffer): string {
+	return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array {
+	return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+// Import a master key: a secret holding 32 random bytes, base64-encoded
+async function getMasterKey(env: Env, name: string): Promise<CryptoKey> {
+	const value = getEnvBinding(env, name, 'secret');
+	const raw = value ? fromBase64(value) : null;
+	if (!raw || raw.byteLength !== 32) {
+		throw new Error(`Encryption key ${name} must be a secret holding 32 base64-encoded bytes`);
+	}
+	return crypto.subtle.importKey('raw', raw, 'AES-KW', false, ['wrapKey', 'unwrapKey']);
+}
+
+// Each chunk's IV is its index, which is unique under the object's data key. The additional data marks the last
+// chunk, so a truncated object does not decrypt.
+function chunkParams(index: number, final: boolean): SubtleCryptoEncryptAlgorithm {
+	const iv = new Uint8Array(12);
+	new DataView(iv.buffer).setBigUint64(4, BigInt(index));
+	return { name: 'AES-GCM', iv, additionalData: new Uint8Array([final ? 1 : 0]) };
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+	const joined = new Uint8Array(a.byteLength + b.byteLength);
+	joined.set(a);
+	joined.set(b, a.byteLength);
+	return joined;
+}
+
+// Encrypt a stream chunk by chunk. A chunk is only sealed once the next bytes arrive, so the last one can be
+// marked final. verify runs before the last chunk is sealed, and failing it aborts the upload.
+function encryptStream(dataKey: CryptoKey, verify: () => Promise<void>): TransformStream<Uint8Array, Uint8Array> {
+	let buffer = new Uint8Array(0);
+	let index = 0;
+	const seal = async (chunk: Uint8Array, final: boolean) =>
+		new Uint8Array(await crypto.subtle.encrypt(chunkParams(index++, final), dataKey, chunk));
+
+	return new TransformStream({
+		async transform(chunk, controller) {
+			buffer = concat(buffer, chunk);
+			while (buffer.byteLength > CHUNK_SIZE) {
+				controller.enqueue(await seal(buffer.subarray(0, CHUNK_SIZE), false));
+				buffer = buffer.slice(CHUNK_SIZE);
+			}
+		},
+		async flush(controller) {
+			await verify();
+			controller.enqueue(await seal(buffer, true));
+		},
+	});
+}
+
+// Decrypt chunks firstIndex onwards of an object with totalChunks chunks, dropping `skip` bytes of plaintext and
+// emitting `length` bytes
+function decryptStream(dataKey: CryptoKey, firstIndex: number, totalChunks: number, skip: number, length: number) {
+	let buffer = new Uint8Array(0);
+	let index = firstIndex;
+	let remaining = length;
+	const open = async (chunk: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+		let plaintext = new Uint8Array(await crypto.subtle.decrypt(chunkParams(index, index === totalChunks - 1), dataKey, chunk));
+		index++;
+		plaintext = plaintext.subarray(skip, skip + remaining);
+		skip = 0;
+		remaining -= plaintext.byteLength;
+		if (plaintext.byteLength > 0) controller.enqueue(plaintext);
+	};
+
+	return new TransformStream<Uint8Array, Uint8Array>({
+		async transform(chunk, controller) {
+			buffer = concat(buffer, chunk);
+			while (buffer.byteLength >= CHUNK_SIZE + TAG_SIZE) {
+				await open(buffer.subarray(0, CHUNK_SIZE + TAG_SIZE), controller);
+				buffer = buffer.slice(CHUNK_SIZE + TAG_SIZE);
+			}
+		},
+		async flush(controller) {
+			if (buffer.byteLength > 0) {
+				await open(buffer, controller);
+			}
+			if (remaining > 0) {
+				throw new Error('Encrypted object ended early');
+			}
+		},
+	});
+}
+
+function withoutMetadata(headers: Headers): Headers {
+	const cleaned = new Headers(headers);
+	for (const name of [...cleaned.keys()]) {
+		if (name.startsWith(METADATA_PREFIX)) cleaned.delete(name);
+	}
+	return cleaned;
+}
+
+function hasMetadata(headers: Headers): boolean {
+	return [...headers.keys()].some((name) => name.startsWith(METADATA_PREFIX));
+}
+
+// Drop the metadata the proxy reserves from a client's write, so no object claims to be encrypted when it is not.
+// A buffered body has already been read and is forwarded on its own, so only a streamed one is carried over.
+export function withoutReservedMetadata(req: Request): Request {
+	if (!hasMetadata(req.headers)) {
+		return req;
+	}
+	return new Request(req.url, { method: req.method, headers: withoutMetadata(req.headers), body: req.bodyUsed ? null : req.body });
+}
+
+// Drop the reserved metadata from a response that is passed on as it is, such as a 304 of an encrypted object
+function withoutMetadataResponse(resp: Response): Response {
+	if (!hasMetadata(resp.headers)) {
+		return resp;
+	}
+	return new Response(resp.body, { status: resp.status, statusText: resp.statusText, headers: withoutMetadata(resp.headers) });
+}
+
+async function digestBase64(algorithm: string, data: ArrayBuffer): Promise<string> {
+	return toBase64(await crypto.subtle.digest(algorithm, data));
+}
+
+// Encrypt a PutObject body when its key is under an encryption rule. The body gets a fresh data key, wrapped by
+// the rule's master key and stored with the object. Since R2 only sees the ciphertext, the plaintext's payload
+// hash and Content-MD5 are verified here.
+export async function sealUpload(
+	req: Request,
+	virtualBucket: VirtualBucket,
+	key: string,
+	body: ArrayBuffer | ReadableStream | undefined,
+	payloadHash: string | undefined,
+	env: Env
+): Promise<SealedUpload | { error: Response }> {
+	const keyName = encryptionKeyName(virtualBucket, key);
+	if (!keyName) {
+		return { req, body, payloadHash };
+	}
+
+	const size = body instanceof ArrayBuffer ? body.byteLength : Number(req.headers.get('content-length') ?? NaN);
+	if (!Number.isSafeInteger(size) || size < 0) {
+		return { error: s3ErrorResponse('MissingContentLength', 'You must provide the Content-Length HTTP header.', 411) };
+	}
+
+	const dataKey = (await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])) as CryptoKey;
+	const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, await getMasterKey(env, keyName), 'AES-KW');
+	const contentMd5 = req.headers.get('content-md5');
+	const headers = new Headers(req.headers);
+	for (const name of [...headers.keys()]) {
+		if (PLAINTEXT_CHECKSUM_HEADERS.includes(name) || name.startsWith('x-amz-checksum-')) headers.delete(name);
+	}
+	headers.set(SCHEME_HEADER, ENCRYPTION_SCHEME);
+	headers.set(KEY_NAME_HEADER, keyName);
+	headers.set(WRAPPED_KEY_HEADER, toBase64(wrappedKey as ArrayBuffer));
+	headers.set(SIZE_HEADER, String(size));
+	headers.set('content-length', String(ciphertextSize(size)));
+	const sealedReq = new Request(req.url, { method: req.method, headers });
+
+	// A buffered body was already checked against its payload hash when the signature was verified
+	if (!(body instanceof ReadableStream)) {
+		const plaintext = new Uint8Array(body ?? new ArrayBuffer(0));
+		if (contentMd5 && (await digestBase64('MD5', plaintext)) !== contentMd5) {
+			return { error: s3ErrorResponse('BadDigest', 'The Content-MD5 you specified did not match what we received.', 400) };
+		}
+		const ciphertext = await new Response(new Blob([plaintext]).stream().pipeThrough(encryptStream(dataKey, async () => {}))).arrayBuffer();
+		return { req: sealedReq, body: ciphertext };
+	}
+
+	// Hash the plaintext as it streams through, and check it before the last chunk is sealed
+	const sha256 = /^[0-9a-f]{64}$/.test(payloadHash ?? '') ? new crypto.DigestStream('SHA-256') : null;
+	const md5 = contentMd5 ? new crypto.DigestStream('MD5') : null;
+	const writers = [sha256, md5].filter((stream) => stream !== null).map((stream) => stream!.getWriter());
+	const verify = async () => {
+		await Promise.all(writers.map((writer) => writer.close()));
+		if (sha256 && toHex(await sha256.digest) !== payloadHash) {
+			throw new Error(`Payload hash mismatch for encrypted upload of ${key}`);
+		}
+		if (md5 && toBase64(await md5.digest) !== contentMd5) {
+			throw new Error(`Content-MD5 mismatch for encrypted upload of ${key}`);
+		}
+	};
+	const hashing = new TransformStream<Uint8Array, Uint8Array>({
+		async transform(chunk, controller) {
+			await Promise.all(writers.map((writer) => writer.write(chunk)));
+			controller.enqueue(chunk);
+		},
+	});
+
+	const fixedLength = new FixedLengthStream(ciphertextSize(size));
+	// Errors surface through the readable side, which aborts the upload to R2
+	body
+		.pipeThrough(hashing)
+		.pipeThrough(encryptStream(dataKey, verify))
+		.pipeTo(fixedLength.writable)
+		.catch((error) => console.error('Encrypted upload failed:', error));
+	return { req: sealedReq, body: fixedLength.readable, payloadHash: UNSIGNED_PAYLOAD };
+}
+
+// Parse a single-range Range header against the object size. Returns null for a header to ignore, like S3 ignores
+// ranges it cannot parse, and 'unsatisfiable' for a range past the end.
+function parseRange(value: string, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+	const match = value.match(/^bytes=(\d*)-(\d*)$/);
+	if (!match || (!match[1] && !match[2])) {
+		return null;
+	}
+	let start: number;
+	let end: number;
+	if (!match[1]) {
+		start = Math.max(0, size - Number(match[2]));
+		end = size - 1;
+	} else {
+		start = Number(match[1]);
+		end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+	}
+	if (start > end || start >= size) {
+		return 'unsatisfiable';
+	}
+	return { start, end };
+}
+
+// Read an object through `read`, decrypting it when it was stored encrypted. Objects stored as they are pass
+// through untouched. A range of an encrypted object is read again as the chunks covering it, once the first
+// response has told its size.
+export async function readDecrypted(req: Request, env: Env, read: (req: Request) => Promise<Response>): Promise<Response> {
+	const resp = await read(req);
+	const scheme = resp.headers.get(SCHEME_HEADER);
+	if (!scheme || (resp.status !== 200 && resp.status !== 206)) {
+		return withoutMetadataResponse(resp);
+	}
+	if (scheme !== ENCRYPTION_SCHEME) {
+		throw new Error(`Unknown encryption scheme ${scheme}`);
+	}
+
+	const size = Number(resp.headers.get(SIZE_HEADER));
+	const headers = withoutMetadata(resp.headers);
+	// A ranged HEAD describes the range a GET would return, even from a backend that answers it with the whole object
+	const ranged = resp.status === 206 || (req.method === 'HEAD' && !req.headers.has('if-range'));
+	const range = ranged ? parseRange(req.headers.get('range') ?? '', size) : null;
+	if (range === 'unsatisfiable') {
+		await resp.body?.cancel();
+		return s3ErrorResponse('InvalidRange', 'The requested range is not satisfiable', 416, { ActualObjectSize: String(size) });
+	}
+	if (req.method === 'HEAD') {
+		await resp.body?.cancel();
+		if (!range) {
+			headers.set('content-length', String(size));
+			headers.delete('content-range');
+			return new Response(null, { status: 200, headers });
+		}
+		headers.set('content-length', String(range.end - range.start + 1));
+		headers.set('content-range', `bytes ${range.start}-${range.end}/${size}`);
+		return new Response(null, { status: 206, headers });
+	}
+
+	const totalChunks = chunkCount(size);
+	const dataKey = await crypto.subtle.unwrapKey(
+		'raw',
+		fromBase64(resp.headers.get(WRAPPED_KEY_HEADER)!),
+		await getMasterKey(env, resp.headers.get(KEY_NAME_HEADER)!),
+		'AES-KW',
+		'AES-GCM',
+		false,
+		['decrypt']
+	);
+
+	if (!range) {
+		headers.set('content-length', String(size));
+		headers.delete('content-range');
+		const fixedLength = new FixedLengthStream(size);
+		resp
+			.body!.pipeThrough(decryptStream(dataKey, 0, totalChunks, 0, size))
+			.pipeTo(fixedLength.writable)
+			.catch((error) => console.error('Decrypting object failed:', error));
+		return new Response(fixedLength.readable, { status: 200, headers });
+	}
+
+	// Read the chunks covering the range, of the same object
+	await resp.body?.cancel();
+	const firstChunk = Math.floor(range.start / CHUNK_SIZE);
+	const lastChunk = Math.floor(range.end / CHUNK_SIZE);
+	const cipherStart = firstChunk * (CHUNK_SIZE + TAG_SIZE);
+	const cipherEnd = Math.min((lastChunk + 1) * (CHUNK_SIZE + TAG_SIZE), ciphertextSize(size)) - 1;
+	const chunkHeaders = new Headers(req.headers);
+	chunkHeaders.set('range', `bytes=${cipherStart}-${cipherEnd}`);
+	chunkHeaders.set('if-match', resp.headers.get('etag') ?? '*');
+	const chunks = await read(new Request(req.url, { method: 'GET', headers: chunkHeaders }));
+	if (chunks.status !== 206) {
+		return withoutMetadataResponse(chunks);
+	}
+
+	const length = range.end - range.start + 1;
+	headers.set('content-length', String(length));
+	headers.set('content-range', `bytes ${range.start}-${range.end}/${size}`);
+	const fixedLength = new FixedLengthStream(length);
+	chunks
+		.body!.pipeThrough(decryptStream(dataKey, firstChunk, totalChunks, range.start - firstChunk * CHUNK_SIZE, length))
+		.pipeTo(fixedLength.writable)
+		.catch((error) => console.error('Decrypting object range failed:', error));
+	return new Response(fixedLength.readable, { status: 206, headers });
+}
@@ -0,0 +1,23 @@
+// What a binding or secret named in config must hold. Config can name anything in the environment, so the
+// value is checked when it is read rather than trusted.
+interface EnvBindingKinds {
+	secret: string;
+	r2: R2Bucket;
+	queue: Queue<unknown>;
+}
+
+function hasMethods(value: unknown, methods: string[]): boolean {
+	return typeof value === 'object' && value !== null && methods.every((method) => typeof Reflect.get(value, method) === 'function');
+}
+
+const isKind: { [K in keyof EnvBindingKinds]: (value: unknown) => boolean } = {
+	secret: (value) => typeof value === 'string' && value !== '',
+	r2: (value) => hasMethods(value, ['head', 'get', 'put', 'delete', 'list']),
+	queue: (value) => hasMethods(value, ['send', 'sendBatch']),
+};
+
+// Read a binding or secret that config refers to by name. Null when it is not set or holds something else.
+export function getEnvBinding<K extends keyof EnvBindingKinds>(env: Env, name: string, kind: K): EnvBindingKinds[K] | null {
+	const value: unknown = Reflect.get(env, name);
+	return isKind[kind](value) ? (value as EnvBindingKinds[K]) : null;
+}
@@ -0,0 +1,118 @@
+import { XMLBuilder } from 'fast-xml-parser';
+
+// Build an S3-style XML error response that SDKs can parse. Extra fields (e.g. BucketName, Key) are
+// added to the <Error> element as-is.
+export function s3ErrorResponse(code: string, message: string, status: number, extra?: Record<string, string>): Response {
+	const requestId = crypto.randomUUID();
+
+	const builder = new XMLBuilder({
+		ignoreAttributes: false,
+		format: true,
+	});
+
+	const xmlResponse = builder.build({
+		'?xml': { '@_version': '1.0', '@_encoding': 'UTF-8' },
+		Error: {
+			Code: code,
+			Message: message,
+			...extra,
+			RequestId: requestId,
+		},
+	});
+
+	return new Response(xmlResponse, {
+		headers: {
+			'Content-Type': 'application/xml',
+			'x-amz-request-id': requestId,
+		},
+		status,
+	});
+}
+
+export function noSuchBucket(bucketName: string): Response {
+	return s3ErrorResponse('NoSuchBucket', 'The specified bucket does not exist', 404, { BucketName: bucketName });
+}
+
+export function accessDenied(message = 'Access Denied'): Response {
+	return s3ErrorResponse('AccessDenied', message, 403);
+}
+
+export function invalidAccessKeyId(): Response {
+	return s3ErrorResponse('InvalidAccessKeyId', 'The AWS Access Key Id you provided does not exist in our records.', 403);
+}
+
+// details carries what S3 reports alongside the error (StringToSign, CanonicalRequest, ...) so clients can
+// see where their signature went wrong
+export function signatureDoesNotMatch(details?: Record<string, string>): Response {
+	return s3ErrorResponse(
+		'SignatureDoesNotMatch',
+		'The request signature we calculated does not match the signature you provided. Check your key and signing method.',
+		403,
+		details
+	);
+}
+
+export function authorizationHeaderMalformed(message: string, extra?: Record<string, string>): Response {
+	return s3ErrorResponse('AuthorizationHeaderMalformed', `The authorization header is malformed; ${message}`, 400, extra);
+}
+
+export function contentSha256Mismatch(clientHash: string, computedHash: string): Response {
+	return s3ErrorResponse('XAmzContentSHA256Mismatch', "The provided 'x-amz-content-sha256' header does not match what was computed.", 400, {
+		ClientComputedContentSHA256: clientHash,
+		S3ComputedContentSHA256: computedHash,
+	});
+}
+
+export function requestTimeTooSkewed(requestTime: string): Response {
+	return s3ErrorResponse('RequestTimeTooSkewed', 'The difference between the request time and the current time is too large.', 403, {
+		RequestTime: requestTime,
+		ServerTime: new Date().toISOString(),
+	});
+}
+
+export function invalidArgument(message: string, argumentName: string, argumentValue?: string): Response {
+	return s3ErrorResponse('InvalidArgument', message, 400, {
+		ArgumentName: argumentName,
+		...(argumentValue !== undefined && { ArgumentValue: argumentValue }),
+	});
+}
+
+export function serviceUnavailable(): Response {
+	return s3ErrorResponse('ServiceUnavailable', 'Please reduce your request rate.', 503);
+}
+
+// A physical bucket (or listing index shard) failed a request that an operation depends on. A merged result
+// would be missing that bucket's share, so the whole operation fails with ServiceUnavailable, which SDKs retry,
+// or with NotImplemented when the bucket does not support the operation at all.
+export class BackendError extends Error {
+	constructor(readonly bucketName: string, readonly status: number, message: string) {
+		super(message);
+		this.name = 'BackendError';
+	}
+}
+
+// A setting the deployment needs is missing or invalid. Retrying will not help until the configuration is fixed.
+export class ConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ConfigError';
+	}
+}
+
+// Turn an exception that escaped a handler into an S3 error response
+export function errorResponse(error: unknown): Response {
+	if (error instanceof ConfigError) {
+		console.error('Configuration error:', error.message);
+		return s3ErrorResponse('InternalError', 'The service is not configured correctly.', 500);
+	}
+	if (error instanceof BackendError) {
+		// A bucket that does not implement the operation (e.g. ListMultipartUploads on an R2 binding) will not on a retry either
+		if (error.status === 501) {
+			return s3ErrorResponse('NotImplemented', 'A header or query you provided implies functionality that is not implemented.', 501);
+		}
+		console.error(`Backend ${error.bucketName} failed with ${error.status}:`, error.message);
+		return serviceUnavailable();
+	}
+	console.error('Unhandled error:', error);
+	return s3ErrorResponse('InternalError', 'We encountered an internal error. Please try again.', 500);
+}
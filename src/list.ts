@@ -0,0 +1,642 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import { listBucket, queryBucket, asArray, compareKeys, S3Object, ListObjectsV2Response } from './r2';
+import { getListingBuckets, getPrefixBuckets, VirtualBucket } from './placement';
+import { getIndexShards } from './listing-index';
+import { BackendError, ConfigError, invalidArgument } from './errors';
+import { encryptionKeyName, readDecrypted } from './encryption';
+import { forwardWithReshard } from './reshard';
+
+// Types for ListObjects (v1) response structure
+interface ListObjectsV1Response {
+	Name: string;
+	Prefix: string;
+	Marker: string;
+	NextMarker?: string;
+	MaxKeys: number;
+	Delimiter?: string;
+	IsTruncated: boolean;
+	Contents?: S3Object[];
+	CommonPrefixes?: { Prefix: string }[];
+}
+
+// Types for ListObjectVersions response structure
+interface ObjectVersion {
+	Key: string;
+	VersionId: string;
+	IsLatest: string;
+	LastModified: string;
+	ETag?: string;
+	Size?: string;
+	StorageClass?: string;
+	Owner?: {
+		ID: string;
+		DisplayName: string;
+	};
+}
+
+interface ListVersionsResponse {
+	Name: string;
+	Prefix: string;
+	KeyMarker: string;
+	VersionIdMarker: string;
+	NextKeyMarker?: string;
+	NextVersionIdMarker?: string;
+	MaxKeys: number;
+	Delimiter?: string;
+	IsTruncated: boolean;
+	Version?: ObjectVersion[];
+	DeleteMarker?: ObjectVersion[];
+	CommonPrefixes?: { Prefix: string }[];
+}
+
+interface ListOptions {
+	prefix: string;
+	delimiter: string | null;
+	maxKeys: number;
+	fetchOwner: boolean;
+	// Where each source resumes: the key or common prefix its last returned entry had
+	cursors: Map<string, SourceCursorState>;
+}
+
+// Where one source's listing resumes, or null once it has nothing left
+export type SourceCursorState = string | null;
+
+// The parts of a ListObjectsV2 result the merge reads
+type ListPage = Pick<ListObjectsV2Response, 'Contents' | 'CommonPrefixes' | 'IsTruncated' | 'NextContinuationToken'>;
+
+interface PageRequest {
+	prefix: string;
+	delimiter: string | null;
+	maxKeys: number;
+	fetchOwner: boolean;
+	startAfter: string;
+	continuationToken: string | null;
+}
+
+// Something a listing is merged from: a physical bucket, or a shard of the listing index
+export interface ListSource {
+	name: string;
+	fetchPage(request: PageRequest): Promise<ListPage>;
+}
+
+// An entry of a merged listing: an object, or a common prefix when `object` is absent
+export interface ListEntry {
+	key: string;
+	object?: S3Object;
+}
+
+// One page of a listing merged across all sources
+interface MergedListing {
+	entries: ListEntry[];
+	isTruncated: boolean;
+	cursors: Map<string, SourceCursorState>;
+}
+
+// One source's side of a merge
+interface SourceCursor {
+	source: ListSource;
+	// Entries fetched but not merged yet, in key order
+	buffer: ListEntry[];
+	// Resume point for the next page. Within a request this is the source's own continuation token.
+	startAfter: string;
+	continuationToken: string | null;
+	// The source has nothing beyond the buffer
+	exhausted: boolean;
+	// The last entry taken from this source
+	after: string;
+}
+
+// The continuation token handed to clients. It is signed, since its cursors decide what the next page skips.
+interface ContinuationToken {
+	bucket: string;
+	prefix: string;
+	delimiter: string;
+	cursors: Record<string, SourceCursorState>;
+	// The last entry returned, where sources added since the previous page (e.g. a bucket joining the pool) resume
+	last: string;
+}
+
+// Buckets of a virtual bucket as list sources, by default all of them. While re-sharding, objects may still
+// sit in buckets of the previous pool.
+export function getBucketSources(virtualBucket: VirtualBucket, env: Env, bucketNames = getListingBuckets(virtualBucket)): ListSource[] {
+	return bucketNames.map((bucketName) => ({
+		name: bucketName,
+		fetchPage: (request) => {
+			const bucketParams = new URLSearchParams();
+			if (request.prefix) bucketParams.set('prefix', request.prefix);
+			if (request.delimiter) bucketParams.set('delimiter', request.delimiter);
+			bucketParams.set('max-keys', String(request.maxKeys));
+			if (request.fetchOwner) bucketParams.set('fetch-owner', 'true');
+			if (request.continuationToken) {
+				bucketParams.set('continuation-token', request.continuationToken);
+			} else if (request.startAfter) {
+				bucketParams.set('start-after', request.startAfter);
+			}
+			return listBucket(bucketName, bucketParams, env);
+		},
+	}));
+}
+
+// The sources a list of prefix is served from: the listing index when the virtual bucket has one, so a list
+// costs no bucket requests, otherwise the buckets that placement rules allow to hold the prefix
+async function getListSources(virtualBucket: VirtualBucket, prefix: string, env: Env): Promise<ListSource[]> {
+	if (virtualBucket.indexShards === 0) {
+		return getBucketSources(virtualBucket, env, await getPrefixBuckets(virtualBucket, prefix));
+	}
+
+	return getIndexShards(virtualBucket, env).map((shard) => ({
+		name: shard.name,
+		fetchPage: async (request) => {
+			try {
+				return await shard.stub.list({
+					prefix: request.prefix,
+					delimiter: request.delimiter,
+					maxKeys: request.maxKeys,
+					startAfter: request.continuationToken ?? request.startAfter,
+				});
+			} catch (error) {
+				throw new BackendError(shard.name, 503, `Listing index shard ${shard.name} failed: ${error}`);
+			}
+		},
+	}));
+}
+
+// Fetch the next page of a source into its buffer, unless the buffer still has entries. A common prefix equal
+// to the cursor was already returned: resuming after it lists the rest of its keys, which R2 rolls up again.
+async function fillBuffer(cursor: SourceCursor, options: ListOptions, pageSize: number): Promise<void> {
+	while (cursor.buffer.length === 0 && !cursor.exhausted) {
+		const page = await cursor.source.fetchPage({
+			prefix: options.prefix,
+			delimiter: options.delimiter,
+			maxKeys: pageSize,
+			fetchOwner: options.fetchOwner,
+			startAfter: cursor.startAfter,
+			continuationToken: cursor.continuationToken,
+		});
+		cursor.buffer = [
+			...asArray(page.Contents).map((object) => ({ key: object.Key, object })),
+			...asArray(page.CommonPrefixes)
+				.map((cp) => ({ key: cp.Prefix }))
+				.filter((entry) => entry.key !== cursor.startAfter),
+		].sort((a, b) => compareKeys(a.key, b.key));
+		cursor.continuationToken = page.NextContinuationToken ?? null;
+		cursor.exhausted = !page.IsTruncated || !cursor.continuationToken;
+	}
+}
+
+// The merge engine shared by ListObjects, ListObjectsV2 and the index reconcile job: a k-way merge that
+// pages each source lazily from its own cursor. Objects and common prefixes both count toward maxKeys, and
+// an entry present in several sources (a prefix, or a key being migrated) is returned once.
+export async function mergeListings(sources: ListSource[], options: ListOptions): Promise<MergedListing> {
+	// One more than a page, so the last fetch also tells whether the listing is truncated
+	const pageSize = Math.min(options.maxKeys + 1, 1000);
+
+	const cursors: SourceCursor[] = sources.map((source) => {
+		const state = options.cursors.has(source.name) ? options.cursors.get(source.name)! : '';
+		return {
+			source,
+			buffer: [],
+			startAfter: state ?? '',
+			continuationToken: null,
+			exhausted: state === null,
+			after: state ?? '',
+		};
+	});
+
+	const entries: ListEntry[] = [];
+	let isTruncated = false;
+	while (true) {
+		await Promise.all(cursors.map((cursor) => fillBuffer(cursor, options, pageSize)));
+
+		// The smallest head, preferring the current pool's bucket when a key is in two
+		let next: ListEntry | undefined;
+		for (const cursor of cursors) {
+			const head = cursor.buffer[0];
+			if (head && (!next || compareKeys(head.key, next.key) < 0)) next = head;
+		}
+		if (!next) break;
+		if (entries.length === options.maxKeys) {
+			isTruncated = true;
+			break;
+		}
+
+		for (const cursor of cursors) {
+			if (cursor.buffer[0]?.key === next.key) cursor.after = cursor.buffer.shift()!.key;
+		}
+		entries.push(next);
+	}
+
+	return {
+		entries,
+		isTruncated,
+		cursors: new Map(cursors.map((cursor) => [cursor.source.name, cursor.exhausted && cursor.buffer.length === 0 ? null : cursor.after])),
+	};
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+	const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+	return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// Continuation tokens are signed with their own secret, LIST_TOKEN_SECRET. Without it tokens can neither be
+// issued nor trusted, so S3 requests are refused up front rather than only once a list needs a second page.
+export function requireListTokenSecret(env: Env): string {
+	if (!env.LIST_TOKEN_SECRET) {
+		throw new ConfigError('LIST_TOKEN_SECRET is not set, so list continuation tokens cannot be signed');
+	}
+	return env.LIST_TOKEN_SECRET;
+}
+
+async function getTokenKey(env: Env): Promise<CryptoKey> {
+	const secret = new TextEncoder().encode(`ListObjectsV2 continuation token\n${requireListTokenSecret(env)}`);
+	return crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+async function encodeContinuationToken(token: ContinuationToken, env: Env): Promise<string> {
+	const payload = new TextEncoder().encode(JSON.stringify(token));
+	const signature = await crypto.subtle.sign('HMAC', await getTokenKey(env), payload);
+	return `${toBase64Url(payload)}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Decode a continuation token, returning null if it is malformed or was not signed by us
+async function decodeContinuationToken(value: string, env: Env): Promise<ContinuationToken | null> {
+	const key = await getTokenKey(env);
+	try {
+		const [payload, signature] = value.split('.');
+		const bytes = fromBase64Url(payload);
+		if (!(await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), bytes))) {
+			return null;
+		}
+		return JSON.parse(new TextDecoder().decode(bytes));
+	} catch (error) {
+		return null;
+	}
+}
+
+// Parse max-keys, which S3 caps at 1000. Returns null when it is not a non-negative integer.
+function parseMaxKeys(params: URLSearchParams): number | null {
+	const value = params.get('max-keys') || '1000';
+	if (!/^\d+$/.test(value)) {
+		return null;
+	}
+	return Math.min(parseInt(value), 1000);
+}
+
+function xmlResponse(root: string, body: object): Response {
+	// Convert to XML
+	const builder = new XMLBuilder({
+		ignoreAttributes: false,
+		format: true,
+	});
+
+	const xml = builder.build({
+		[root]: {
+			'@_xmlns': 'http://s3.amazonaws.com/doc/2006-03-01/',
+			...body,
+		},
+	});
+
+	return new Response(xml, {
+		headers: {
+			'Content-Type': 'application/xml',
+			'x-amz-request-id': crypto.randomUUID(),
+		},
+		status: 200,
+	});
+}
+
+// Lists only carry the stored size, which for an encrypted object is its ciphertext's. Keys under an encryption rule
+// are looked up for the plaintext size recorded when they were written, so objects stored before the rule keep theirs.
+async function readPlaintextSize(
+	virtualBucket: VirtualBucket,
+	key: string,
+	versionId: string | undefined,
+	storedSize: number,
+	url: URL,
+	env: Env
+): Promise<number> {
+	if (!encryptionKeyName(virtualBucket, key)) {
+		return storedSize;
+	}
+	const objectUrl = new URL(url.origin);
+	if (versionId) objectUrl.searchParams.set('versionId', versionId);
+	const head = await readDecrypted(new Request(objectUrl, { method: 'HEAD' }), env, (read) =>
+		forwardWithReshard(read, virtualBucket, key, objectUrl, env)
+	);
+	await head.body?.cancel();
+	// An object deleted since it was listed keeps its listed size
+	return head.ok ? Number(head.headers.get('content-length')) : storedSize;
+}
+
+// Split merged entries back into Contents and CommonPrefixes, with the plaintext sizes of encrypted objects
+async function toResponseEntries(
+	virtualBucket: VirtualBucket,
+	entries: ListEntry[],
+	url: URL,
+	env: Env
+): Promise<{ Contents?: S3Object[]; CommonPrefixes?: { Prefix: string }[] }> {
+	const objects = await Promise.all(
+		entries
+			.filter((entry) => entry.object)
+			.map(async ({ key, object }) => ({
+				...object!,
+				Size: await readPlaintextSize(virtualBucket, key, undefined, Number(object!.Size), url, env),
+			}))
+	);
+	const prefixes = entries.filter((entry) => !entry.object).map((entry) => ({ Prefix: entry.key }));
+	return {
+		Contents: objects.length > 0 ? objects : undefined,
+		CommonPrefixes: prefixes.length > 0 ? prefixes : undefined,
+	};
+}
+
+// Handle ListObjectsV2 requests by orchestrating across all buckets of the virtual bucket
+export async function handleListObjectsV2(req: Request, virtualBucket: VirtualBucket, env: Env): Promise<Response> {
+	const url = new URL(req.url);
+	const params = url.searchParams;
+
+	// Extract ListObjectsV2 parameters
+	const prefix = params.get('prefix') || '';
+	const delimiter = params.get('delimiter');
+	const maxKeys = parseMaxKeys(params);
+	const continuationToken = params.get('continuation-token');
+	const startAfter = params.get('start-after');
+	const fetchOwner = params.get('fetch-owner') === 'true';
+
+	if (maxKeys === null) {
+		return invalidArgument('Provided max-keys not an integer or within integer range', 'max-keys', params.get('max-keys') || '');
+	}
+
+	// Resume each source from its own cursor. A token only applies to the listing it was issued for.
+	const sources = await getListSources(virtualBucket, prefix, env);
+	const cursors = new Map<string, SourceCursorState>();
+	let resumeFrom = startAfter || '';
+	if (continuationToken) {
+		const token = await decodeContinuationToken(continuationToken, env);
+		if (!token || token.bucket !== virtualBucket.name || token.prefix !== prefix || token.delimiter !== (delimiter || '')) {
+			return invalidArgument('The continuation token provided is incorrect', 'continuation-token', continuationToken);
+		}
+		for (const { name } of sources) {
+			const state = token.cursors[name];
+			cursors.set(name, state === undefined ? token.last : state);
+		}
+		resumeFrom = token.last;
+	} else if (startAfter) {
+		for (const { name } of sources) {
+			cursors.set(name, startAfter);
+		}
+	}
+
+	const page = await mergeListings(sources, { prefix, delimiter, maxKeys, fetchOwner, cursors });
+
+	// Generate next continuation token if needed
+	let nextContinuationToken: string | undefined;
+	if (page.isTruncated) {
+		nextContinuationToken = await encodeContinuationToken(
+			{
+				bucket: virtualBucket.name,
+				prefix,
+				delimiter: delimiter || '',
+				cursors: Object.fromEntries(page.cursors),
+				last: page.entries.length > 0 ? page.entries[page.entries.length - 1].key : resumeFrom,
+			},
+			env
+		);
+	}
+
+	// Build response. KeyCount counts common prefixes too.
+	const response: ListObjectsV2Response = {
+		Name: virtualBucket.name,
+		KeyCount: page.entries.length,
+		MaxKeys: maxKeys,
+		IsTruncated: page.isTruncated,
+		...(await toResponseEntries(virtualBucket, page.entries, url, env)),
+	};
+
+	if (prefix) response.Prefix = prefix;
+	if (delimiter) response.Delimiter = delimiter;
+	if (continuationToken) response.ContinuationToken = continuationToken;
+	if (nextContinuationToken) response.NextContinuationToken = nextContinuationToken;
+	if (startAfter) response.StartAfter = startAfter;
+
+	return xmlResponse('ListBucketResult', response);
+}
+
+// Handle ListObjects (v1) requests, which page with a marker instead of a continuation token
+export async function handleListObjects(req: Request, virtualBucket: VirtualBucket, env: Env): Promise<Response> {
+	const url = new URL(req.url);
+	const params = url.searchParams;
+
+	// Extract ListObjects parameters
+	const prefix = params.get('prefix') || '';
+	const delimiter = params.get('delimiter');
+	const maxKeys = parseMaxKeys(params);
+	const marker = params.get('marker') || '';
+
+	if (maxKeys === null) {
+		return invalidArgument('Provided max-keys not an integer or within integer range', 'max-keys', params.get('max-keys') || '');
+	}
+
+	// A marker is a single cursor for every source
+	const sources = await getListSources(virtualBucket, prefix, env);
+	const cursors = new Map<string, SourceCursorState>();
+	if (marker) {
+		for (const { name } of sources) {
+			cursors.set(name, marker);
+		}
+	}
+
+	const page = await mergeListings(sources, { prefix, delimiter, maxKeys, fetchOwner: true, cursors });
+
+	// Build response. Prefix and Marker are always present in v1, even when empty.
+	const response: ListObjectsV1Response = {
+		Name: virtualBucket.name,
+		Prefix: prefix,
+		Marker: marker,
+		MaxKeys: maxKeys,
+		IsTruncated: page.isTruncated,
+		...(await toResponseEntries(virtualBucket, page.entries, url, env)),
+	};
+
+	if (delimiter) response.Delimiter = delimiter;
+
+	// S3 only returns NextMarker when a delimiter is given; without one, clients continue from the last key.
+	// It can be a common prefix, which the next page then skips.
+	if (page.isTruncated && delimiter && page.entries.length > 0) {
+		response.NextMarker = page.entries[page.entries.length - 1].key;
+	}
+
+	return xmlResponse('ListBucketResult', response);
+}
+
+// A Version or DeleteMarker entry, or a common prefix, tagged with its element name so the merged list can be split again
+type VersionEntry =
+	| { element: 'Version' | 'DeleteMarker'; key: string; version: ObjectVersion }
+	| { element: 'CommonPrefixes'; key: string; version?: undefined };
+
+// Order entries by key, then newest first within a key, which is the order S3 lists versions in and what
+// the key-marker/version-id-marker pair resumes from. Version IDs break ties between identical timestamps.
+function compareVersions(a: VersionEntry, b: VersionEntry): number {
+	if (a.key !== b.key) return compareKeys(a.key, b.key);
+	if (!a.version || !b.version) return a.version ? 1 : b.version ? -1 : 0;
+	if (a.version.LastModified !== b.version.LastModified) return a.version.LastModified > b.version.LastModified ? -1 : 1;
+	if (a.version.VersionId !== b.version.VersionId) return a.version.VersionId < b.version.VersionId ? -1 : 1;
+	return 0;
+}
+
+// Query one physical bucket for versions and return its entries and whether it had more
+async function listBucketVersions(
+	bucketName: string,
+	params: URLSearchParams,
+	env: Env
+): Promise<{ entries: VersionEntry[]; isTruncated: boolean }> {
+	const bucketParams = new URLSearchParams(params);
+	bucketParams.set('versions', '');
+
+	const data = (await queryBucket<{ ListVersionsResult: ListVersionsResponse }>(bucketName, bucketParams, 'ListObjectVersions', env))
+		.ListVersionsResult;
+
+	return {
+		entries: [
+			...asArray(data.Version).map((version) => ({ element: 'Version' as const, key: version.Key, version })),
+			...asArray(data.DeleteMarker).map((version) => ({ element: 'DeleteMarker' as const, key: version.Key, version })),
+			...asArray(data.CommonPrefixes).map((cp) => ({ element: 'CommonPrefixes' as const, key: cp.Prefix })),
+		],
+		isTruncated: String(data.IsTruncated) === 'true',
+	};
+}
+
+// Handle ListObjectVersions requests by orchestrating across the buckets that may hold the prefix. Like the
+// other lists, versions and common prefixes both count toward max-keys.
+export async function handleListObjectVersions(req: Request, virtualBucket: VirtualBucket, env: Env): Promise<Response> {
+	const url = new URL(req.url);
+	const params = url.searchParams;
+
+	// Extract ListObjectVersions parameters
+	const prefix = params.get('prefix') || '';
+	const delimiter = params.get('delimiter');
+	const maxKeys = parseMaxKeys(params);
+	const keyMarker = params.get('key-marker') || '';
+	// Only meaningful together with key-marker
+	const versionIdMarker = keyMarker ? params.get('version-id-marker') || '' : '';
+
+	if (maxKeys === null) {
+		return invalidArgument('Provided max-keys not an integer or within integer range', 'max-keys', params.get('max-keys') || '');
+	}
+
+	// Every bucket lists the keys after key-marker. A version-id-marker only exists in the bucket that holds
+	// it, and while re-sharding a key can have versions in two buckets, so rather than passing it on, the
+	// versions of the marker key are fetched from every bucket and resumed from here.
+	const bucketNames = await getPrefixBuckets(virtualBucket, prefix);
+	const bucketRequests = bucketNames.map(async (bucketName) => {
+		const bucketParams = new URLSearchParams();
+		if (prefix) bucketParams.set('prefix', prefix);
+		if (delimiter) bucketParams.set('delimiter', delimiter);
+		bucketParams.set('max-keys', String(maxKeys));
+		if (keyMarker) bucketParams.set('key-marker', keyMarker);
+		const results = [
+			listBucketVersions(bucketName, bucketParams, env).then((result) => ({
+				...result,
+				// A common prefix equal to the marker was already returned: R2 rolls up the rest of its keys again
+				entries: result.entries.filter((entry) => entry.version || entry.key !== keyMarker),
+			})),
+		];
+
+		if (versionIdMarker) {
+			const markerParams = new URLSearchParams();
+			markerParams.set('prefix', keyMarker);
+			markerParams.set('max-keys', '1000');
+			results.push(
+				listBucketVersions(bucketName, markerParams, env).then((result) => {
+					const entries = result.entries.filter((entry) => entry.key === keyMarker);
+					// Other keys under the prefix are listed by the query above, so only count the marker key's versions
+					return { entries, isTruncated: result.isTruncated && entries.length === result.entries.length };
+				})
+			);
+		}
+
+		return Promise.all(results);
+	});
+
+	// Wait for all bucket requests to complete
+	const bucketResults = (await Promise.all(bucketRequests)).flat();
+
+	// Merge and process results. A version can briefly exist in two buckets while it is being migrated, and a
+	// common prefix can span several buckets.
+	const entriesById = new Map<string, VersionEntry>();
+	let anyTruncated = false;
+
+	for (const result of bucketResults) {
+		for (const entry of result.entries) {
+			const id = entry.version ? `${entry.key}\n${entry.version.VersionId}` : entry.key;
+			if (!entriesById.has(id)) entriesById.set(id, entry);
+		}
+		if (result.isTruncated) anyTruncated = true;
+	}
+
+	const allEntries = [...entriesById.values()].sort(compareVersions);
+
+	// Resume after the version-id-marker within the marker key
+	let startIndex = 0;
+	if (versionIdMarker) {
+		const markerIndex = allEntries.findIndex((entry) => entry.key === keyMarker && entry.version?.VersionId === versionIdMarker);
+		if (markerIndex === -1) {
+			return invalidArgument('Invalid version id specified', 'version-id-marker', versionIdMarker);
+		}
+		startIndex = markerIndex + 1;
+	}
+
+	const resultEntries = allEntries.slice(startIndex, startIndex + maxKeys);
+	const isTruncated = anyTruncated || startIndex + maxKeys < allEntries.length;
+
+	const versions: ObjectVersion[] = [];
+	const deleteMarkers: ObjectVersion[] = [];
+	const commonPrefixes: { Prefix: string }[] = [];
+	for (const entry of resultEntries) {
+		if (entry.element === 'CommonPrefixes') {
+			commonPrefixes.push({ Prefix: entry.key });
+		} else if (entry.element === 'DeleteMarker') {
+			deleteMarkers.push(entry.version);
+		} else {
+			versions.push(entry.version);
+		}
+	}
+	// Encrypted versions report their plaintext size
+	await Promise.all(
+		versions.map(async (version, i) => {
+			if (version.Size === undefined) return;
+			const size = await readPlaintextSize(virtualBucket, version.Key, version.VersionId, Number(version.Size), url, env);
+			versions[i] = { ...version, Size: String(size) };
+		})
+	);
+
+	// Build response. Versions, delete markers and common prefixes are separate elements, so each group keeps the merged order.
+	const response: ListVersionsResponse = {
+		Name: virtualBucket.name,
+		Prefix: prefix,
+		KeyMarker: keyMarker,
+		VersionIdMarker: versionIdMarker,
+		MaxKeys: maxKeys,
+		IsTruncated: isTruncated,
+		Version: versions.length > 0 ? versions : undefined,
+		DeleteMarker: deleteMarkers.length > 0 ? deleteMarkers : undefined,
+		CommonPrefixes: commonPrefixes.length > 0 ? commonPrefixes : undefined,
+	};
+
+	// A page can end on a common prefix, which has no version ID and is skipped by the next page
+	if (isTruncated && resultEntries.length > 0) {
+		const last = resultEntries[resultEntries.length - 1];
+		response.NextKeyMarker = last.key;
+		if (last.version) response.NextVersionIdMarker = last.version.VersionId;
+	}
+	if (delimiter) response.Delimiter = delimiter;
+
+	return xmlResponse('ListVersionsResult', response);
+}
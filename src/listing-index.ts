@@ -0,0 +1,294 @@
+import { DurableObject } from 'cloudflare:workers';
+import { sendR2Request, compareKeys, CommonPrefix, ListObjectsV2Response, S3Object } from './r2';
+import { pickBucket, placeKey, PoolMember, VirtualBucket } from './placement';
+
+// Rows are scanned in batches while a page is assembled
+const LIST_BATCH_SIZE = 1000;
+
+// An object as recorded in the listing index
+export interface IndexEntry {
+	key: string;
+	size: number;
+	etag: string;
+	lastModified: string;
+}
+
+export interface IndexListOptions {
+	prefix: string;
+	delimiter: string | null;
+	maxKeys: number;
+	// List entries strictly after this key or common prefix
+	startAfter: string;
+}
+
+// The parts of a ListObjectsV2 result a shard produces. Its continuation token is the last entry it returned.
+export type IndexPage = Pick<ListObjectsV2Response, 'Contents' | 'CommonPrefixes' | 'IsTruncated' | 'NextContinuationToken'>;
+
+type IndexRow = {
+	key: string;
+	size: number;
+	etag: string;
+	last_modified: string;
+	indexed_at: number;
+	deleted: number;
+};
+
+// The smallest string above every string that starts with prefix, or null if the last character cannot be
+// incremented. Used to skip the rest of a common prefix in one seek.
+function prefixUpperBound(prefix: string): string | null {
+	const last = prefix.charCodeAt(prefix.length - 1);
+	if (last >= 0xd7ff && last <= 0xdfff) return null;
+	if (last === 0xffff) return null;
+	return prefix.slice(0, -1) + String.fromCharCode(last + 1);
+}
+
+// One shard of a virtual bucket's listing index. Keys are stored in SQLite, whose default collation compares
+// the UTF-8 bytes, so rows come back in S3 list order. Deletes leave a tombstone until the reconcile job has
+// seen a listing taken after them, so it does not bring a deleted key back.
+export class ListingIndex extends DurableObject<Env> {
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS objects (
+			key TEXT PRIMARY KEY,
+			size INTEGER NOT NULL,
+			etag TEXT NOT NULL,
+			last_modified TEXT NOT NULL,
+			indexed_at INTEGER NOT NULL,
+			deleted INTEGER NOT NULL DEFAULT 0
+		)`);
+	}
+
+	// Record objects written through the proxy
+	put(entries: IndexEntry[]): void {
+		const now = Date.now();
+		for (const entry of entries) {
+			this.upsert(entry, now);
+		}
+	}
+
+	// Record objects deleted through the proxy
+	delete(keys: string[]): void {
+		const now = Date.now();
+		for (const key of keys) {
+			this.ctx.storage.sql.exec(
+				`INSERT INTO objects (key, size, etag, last_modified, indexed_at, deleted) VALUES (?, 0, '', '', ?, 1)
+				ON CONFLICT (key) DO UPDATE SET indexed_at = excluded.indexed_at, deleted = 1`,
+				key,
+				now
+			);
+		}
+	}
+
+	// Assemble one ListObjectsV2 page. Common prefixes count toward maxKeys like objects do.
+	list(options: IndexListOptions): IndexPage {
+		const { prefix, delimiter, maxKeys, startAfter } = options;
+		const contents: S3Object[] = [];
+		const commonPrefixes: CommonPrefix[] = [];
+		let isTruncated = false;
+		// A common prefix equal to startAfter was returned on an earlier page
+		let lastEntry = startAfter;
+
+		const afterPrefix = compareKeys(startAfter, prefix) > 0;
+		let lower = afterPrefix ? startAfter : prefix;
+		let inclusive = !afterPrefix;
+		scan: while (true) {
+			const rows = this.ctx.storage.sql
+				.exec<IndexRow>(
+					`SELECT * FROM objects WHERE key ${inclusive ? '>=' : '>'} ? AND deleted = 0 ORDER BY key LIMIT ?`,
+					lower,
+					LIST_BATCH_SIZE
+				)
+				.toArray();
+
+			for (const row of rows) {
+				if (!row.key.startsWith(prefix)) break scan;
+
+				const index = delimiter ? row.key.indexOf(delimiter, prefix.length) : -1;
+				const entry = index === -1 ? row.key : row.key.slice(0, index + delimiter!.length);
+				if (entry !== lastEntry) {
+					if (contents.length + commonPrefixes.length === maxKeys) {
+						isTruncated = true;
+						break scan;
+					}
+					if (index === -1) {
+						contents.push({ Key: row.key, Size: row.size, ETag: row.etag, LastModified: row.last_modified, StorageClass: 'STANDARD' });
+					} else {
+						commonPrefixes.push({ Prefix: entry });
+					}
+					lastEntry = entry;
+				}
+
+				// Skip the rest of a common prefix
+				const bound = index === -1 ? null : prefixUpperBound(entry);
+				if (bound) {
+					lower = bound;
+					inclusive = true;
+					continue scan;
+				}
+				lower = row.key;
+				inclusive = false;
+			}
+
+			if (rows.length < LIST_BATCH_SIZE) break;
+		}
+
+		return {
+			Contents: contents.length > 0 ? contents : undefined,
+			CommonPrefixes: commonPrefixes.length > 0 ? commonPrefixes : undefined,
+			IsTruncated: isTruncated,
+			NextContinuationToken: isTruncated ? lastEntry : undefined,
+		};
+	}
+
+	// Repair the key range (after, upTo] from a listing of the buckets taken at listedAt. upTo is null for the
+	// end of the keyspace. Rows written since the listing are newer than it and are left alone.
+	reconcile(after: string, upTo: string | null, entries: IndexEntry[], listedAt: number): { updated: number; removed: number } {
+		const sql = this.ctx.storage.sql;
+		const rows =
+			upTo === null
+				? sql.exec<IndexRow>('SELECT * FROM objects WHERE key > ?', after).toArray()
+				: sql.exec<IndexRow>('SELECT * FROM objects WHERE key > ? AND key <= ?', after, upTo).toArray();
+
+		const listed = new Map(entries.map((entry) => [entry.key, entry]));
+		let updated = 0;
+		let removed = 0;
+
+		for (const row of rows) {
+			const entry = listed.get(row.key);
+			listed.delete(row.key);
+			if (row.indexed_at >= listedAt) continue;
+
+			if (!entry) {
+				if (!row.deleted) removed++;
+				sql.exec('DELETE FROM objects WHERE key = ?', row.key);
+			} else if (row.deleted || row.size !== entry.size || row.etag !== entry.etag || row.last_modified !== entry.lastModified) {
+				this.upsert(entry, listedAt);
+				updated++;
+			}
+		}
+
+		for (const entry of listed.values()) {
+			this.upsert(entry, listedAt);
+			updated++;
+		}
+
+		return { updated, removed };
+	}
+
+	private upsert(entry: IndexEntry, indexedAt: number): void {
+		this.ctx.storage.sql.exec(
+			`INSERT INTO objects (key, size, etag, last_modified, indexed_at, deleted) VALUES (?, ?, ?, ?, ?, 0)
+			ON CONFLICT (key) DO UPDATE SET size = excluded.size, etag = excluded.etag, last_modified = excluded.last_modified,
+				indexed_at = excluded.indexed_at, deleted = 0`,
+			entry.key,
+			entry.size,
+			entry.etag,
+			entry.lastModified,
+			indexedAt
+		);
+	}
+}
+
+// A listing index shard of a virtual bucket
+export interface IndexShard {
+	name: string;
+	stub: DurableObjectStub<ListingIndex>;
+}
+
+function indexShardPool(virtualBucket: VirtualBucket): PoolMember[] {
+	return Array.from({ length: virtualBucket.indexShards }, (_, i) => ({ name: `index-${i}`, weight: 1 }));
+}
+
+// All listing index shards of a virtual bucket. Changing the shard count moves keys between shards, so each
+// count gets a fresh set.
+export function getIndexShards(virtualBucket: VirtualBucket, env: Env): IndexShard[] {
+	return indexShardPool(virtualBucket).map(({ name }) => ({
+		name,
+		stub: env.LISTING_INDEX.get(env.LISTING_INDEX.idFromName(`${virtualBucket.name}:${virtualBucket.indexShards}:${name}`)),
+	}));
+}
+
+// Group keyed items by the shard their key belongs to. Keys are spread over the shards by the same
+// rendezvous hashing that spreads them over buckets.
+export async function groupByShard<T>(virtualBucket: VirtualBucket, items: T[], getKey: (item: T) => string, env: Env) {
+	const shards = getIndexShards(virtualBucket, env);
+	const pool = indexShardPool(virtualBucket);
+	const groups = new Map<IndexShard, T[]>(shards.map((shard) => [shard, []]));
+	for (const item of items) {
+		const name = await pickBucket(getKey(item), pool);
+		groups.get(shards.find((shard) => shard.name === name)!)!.push(item);
+	}
+	return groups;
+}
+
+// Read an object's index entry from R2 after a write whose response does not describe it
+async function headObject(virtualBucket: VirtualBucket, key: string, env: Env): Promise<IndexEntry | null> {
+	const bucket = await placeKey(virtualBucket, key);
+	const resp = await sendR2Request('HEAD', bucket, `/${key}`, env);
+	if (resp.status === 404) {
+		return null;
+	}
+	if (!resp.ok) {
+		throw new Error(`HEAD ${key} in ${bucket} failed: ${resp.status}`);
+	}
+	return {
+		key,
+		size: Number(resp.headers.get('content-length')),
+		etag: resp.headers.get('etag') || '',
+		lastModified: new Date(resp.headers.get('last-modified') || Date.now()).toISOString(),
+	};
+}
+
+// Record objects written or removed through the proxy. null entries mark deleted keys.
+export async function updateIndex(virtualBucket: VirtualBucket, changes: { key: string; entry: IndexEntry | null }[], env: Env) {
+	if (virtualBucket.indexShards === 0 || changes.length === 0) {
+		return;
+	}
+
+	const groups = await groupByShard(virtualBucket, changes, (change) => change.key, env);
+	await Promise.all(
+		[...groups].map(async ([shard, shardChanges]) => {
+			const entries = shardChanges.flatMap((change) => (change.entry ? [change.entry] : []));
+			const deleted = shardChanges.filter((change) => !change.entry).map((change) => change.key);
+			if (entries.length > 0) await shard.stub.put(entries);
+			if (deleted.length > 0) await shard.stub.delete(deleted);
+		})
+	);
+}
+
+// Keep the index in step with a successful object request. The index is repaired by the reconcile job, so a
+// failure here is logged rather than failing a write that already happened.
+export async function recordWrite(req: Request, url: URL, virtualBucket: VirtualBucket, key: string, resp: Response, env: Env) {
+	if (virtualBucket.indexShards === 0 || !resp.ok) {
+		return;
+	}
+
+	const params = url.searchParams;
+	try {
+		let entry: IndexEntry | null;
+		if (req.method === 'PUT' && !params.has('uploadId') && !req.headers.has('x-amz-copy-source')) {
+			// PutObject: the request and response describe the object
+			entry = {
+				key,
+				size: Number(req.headers.get('content-length') || 0),
+				etag: resp.headers.get('etag') || '',
+				lastModified: new Date(resp.headers.get('date') || Date.now()).toISOString(),
+			};
+		} else if (req.method === 'DELETE' && !params.has('uploadId') && !params.has('versionId')) {
+			entry = null;
+		} else if (
+			(req.method === 'PUT' && !params.has('uploadId')) ||
+			(req.method === 'POST' && params.has('uploadId')) ||
+			(req.method === 'DELETE' && params.has('versionId'))
+		) {
+			// CopyObject, CompleteMultipartUpload, or deleting a version, which can change the current one
+			entry = await headObject(virtualBucket, key, env);
+		} else {
+			return;
+		}
+
+		await updateIndex(virtualBucket, [{ key, entry }], env);
+	} catch (error) {
+		console.error(`Failed to update the listing index for ${virtualBucket.name}/${key}:`, error);
+	}
+}
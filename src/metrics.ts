@@ -0,0 +1,60 @@
+import { RejectReason } from './bucket-guard';
+
+// The S3 operation a request to a physical bucket performs, as reported in metrics
+export function operationName(method: string, path: string, params: URLSearchParams, headers: Headers): string {
+	if (path === '/') {
+		if (method === 'POST' && params.has('delete')) return 'DeleteObjects';
+		if (method === 'HEAD') return 'HeadBucket';
+		if (params.has('uploads')) return 'ListMultipartUploads';
+		if (params.has('versions')) return 'ListObjectVersions';
+		return params.get('list-type') === '2' ? 'ListObjectsV2' : 'ListObjects';
+	}
+
+	const copy = headers.has('x-amz-copy-source');
+	const uploadId = params.has('uploadId');
+	switch (method) {
+		case 'GET':
+			return uploadId ? 'ListParts' : 'GetObject';
+		case 'HEAD':
+			return 'HeadObject';
+		case 'PUT':
+			if (uploadId) return copy ? 'UploadPartCopy' : 'UploadPart';
+			return copy ? 'CopyObject' : 'PutObject';
+		case 'POST':
+			return uploadId ? 'CompleteMultipartUpload' : 'CreateMultipartUpload';
+		case 'DELETE':
+			return uploadId ? 'AbortMultipartUpload' : 'DeleteObject';
+		default:
+			return method;
+	}
+}
+
+// One request to a physical bucket. Retried requests are recorded once per attempt, since each attempt counts
+// against the bucket's rate limit.
+export interface BackendRequestMetric {
+	bucket: string;
+	operation: string;
+	// 0 when the bucket could not be reached
+	status: number;
+	latencyMs: number;
+	bytesIn: number;
+	bytesOut: number;
+	// Set when the bucket's guard failed the attempt with a 503 instead of sending it
+	rejected?: RejectReason;
+}
+
+// Write a request to the METRICS Analytics Engine dataset, when it is bound. Data points are indexed by bucket:
+// blob1 bucket, blob2 operation, blob3 status, blob4 why the guard rejected it (`open` or `busy`, empty when it
+// was sent); double1 latency in ms, double2 request bytes, double3 response bytes, double4 status.
+export function recordBackendRequest(env: Env, metric: BackendRequestMetric): void {
+	try {
+		env.METRICS?.writeDataPoint({
+			indexes: [metric.bucket],
+			blobs: [metric.bucket, metric.operation, String(metric.status), metric.rejected ?? ''],
+			doubles: [metric.latencyMs, metric.bytesIn, metric.bytesOut, metric.status],
+		});
+	} catch (error) {
+		// Metrics never fail a request
+		console.error(`Failed to record metrics for ${metric.bucket}:`, error);
+	}
+}
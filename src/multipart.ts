@@ -0,0 +1,228 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import { queryBucket, asArray, compareKeys } from './r2';
+import { getListingBuckets, VirtualBucket } from './placement';
+import { invalidArgument } from './errors';
+import { encodePath, isVirtualHosted } from './addressing';
+
+// Types for ListMultipartUploads response structure
+interface MultipartUpload {
+	Key: string;
+	UploadId: string;
+	Initiated: string;
+	StorageClass?: string;
+	Initiator?: {
+		ID: string;
+		DisplayName: string;
+	};
+	Owner?: {
+		ID: string;
+		DisplayName: string;
+	};
+}
+
+interface ListMultipartUploadsResponse {
+	Bucket: string;
+	KeyMarker?: string;
+	UploadIdMarker?: string;
+	NextKeyMarker?: string;
+	NextUploadIdMarker?: string;
+	Prefix?: string;
+	Delimiter?: string;
+	MaxUploads: number;
+	IsTruncated: boolean;
+	Upload?: MultipartUpload[];
+	CommonPrefixes?: { Prefix: string }[];
+}
+
+// Whether a request is part of a multipart upload on a key. These are all routed by key like any other
+// object request: CreateMultipartUpload (POST ?uploads), UploadPart (PUT ?partNumber&uploadId),
+// CompleteMultipartUpload (POST ?uploadId), AbortMultipartUpload (DELETE ?uploadId) and ListParts (GET ?uploadId).
+export function isMultipartRequest(method: string, params: URLSearchParams): boolean {
+	return params.has('uploadId') || (method === 'POST' && params.has('uploads'));
+}
+
+// R2 answers CreateMultipartUpload, CompleteMultipartUpload and ListParts with the physical bucket name,
+// and Complete with a Location on the R2 endpoint. Point both back at the virtual bucket, with a Location in
+// the addressing style of the request.
+export async function rewriteMultipartResponse(
+	resp: Response,
+	virtualBucket: VirtualBucket,
+	url: URL,
+	key: string,
+	env: Env
+): Promise<Response> {
+	if (!resp.ok || !resp.headers.get('content-type')?.includes('xml')) {
+		return resp;
+	}
+
+	const location = isVirtualHosted(url, env)
+		? `${url.origin}/${encodePath(key)}`
+		: `${url.origin}/${encodeURIComponent(virtualBucket.name)}/${encodePath(key)}`;
+	const xml = (await resp.text())
+		.replace(/<Bucket>[^<]*<\/Bucket>/g, `<Bucket>${escapeXml(virtualBucket.name)}</Bucket>`)
+		.replace(/<Location>[^<]*<\/Location>/g, `<Location>${escapeXml(location)}</Location>`);
+
+	const headers = new Headers(resp.headers);
+	headers.delete('content-length');
+	return new Response(xml, { status: resp.status, statusText: resp.statusText, headers });
+}
+
+function escapeXml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// An upload, or a common prefix when `upload` is absent. Both count toward max-uploads, so they are merged and
+// paged together.
+interface UploadEntry {
+	key: string;
+	upload?: MultipartUpload;
+}
+
+// Order entries by key, then uploads of a key by upload ID, which is how S3 resumes after an upload-id-marker
+function compareEntries(a: UploadEntry, b: UploadEntry): number {
+	if (a.key !== b.key) return compareKeys(a.key, b.key);
+	const aId = a.upload?.UploadId ?? '';
+	const bId = b.upload?.UploadId ?? '';
+	return aId === bId ? 0 : aId < bId ? -1 : 1;
+}
+
+// Query one physical bucket for multipart uploads
+async function listBucketUploads(
+	bucketName: string,
+	params: URLSearchParams,
+	env: Env
+): Promise<{ entries: UploadEntry[]; isTruncated: boolean }> {
+	const bucketParams = new URLSearchParams(params);
+	bucketParams.set('uploads', '');
+	const data = await queryBucket<{ ListMultipartUploadsResult: ListMultipartUploadsResponse }>(
+		bucketName,
+		bucketParams,
+		'ListMultipartUploads',
+		env
+	);
+	const result = data.ListMultipartUploadsResult;
+	return {
+		entries: [
+			...asArray(result.Upload).map((upload) => ({ key: String(upload.Key), upload })),
+			...asArray(result.CommonPrefixes).map((cp) => ({ key: String(cp.Prefix) })),
+		],
+		isTruncated: String(result.IsTruncated) === 'true',
+	};
+}
+
+// Handle ListMultipartUploads requests by orchestrating across all buckets of the virtual bucket
+export async function handleListMultipartUploads(req: Request, virtualBucket: VirtualBucket, env: Env): Promise<Response> {
+	const url = new URL(req.url);
+	const params = url.searchParams;
+
+	// Extract ListMultipartUploads parameters
+	const prefix = params.get('prefix') || '';
+	const delimiter = params.get('delimiter');
+	const maxUploads = Math.min(parseInt(params.get('max-uploads') || '1000'), 1000);
+	const keyMarker = params.get('key-marker') || '';
+	// Only meaningful together with key-marker
+	const uploadIdMarker = keyMarker ? params.get('upload-id-marker') || '' : '';
+
+	if (!Number.isInteger(maxUploads) || maxUploads < 0) {
+		return invalidArgument('Provided max-uploads not an integer or within integer range', 'max-uploads', params.get('max-uploads') || '');
+	}
+
+	// Every bucket lists the keys after key-marker. An upload-id-marker only exists in the bucket that issued
+	// it, so rather than passing it on, the uploads of the marker key are fetched from every bucket and those
+	// with a greater upload ID are listed. The marker key may be gone or rolled up into a common prefix.
+	const markerListed = uploadIdMarker && keyMarker.startsWith(prefix) && (!delimiter || !keyMarker.includes(delimiter, prefix.length));
+	const bucketRequests = getListingBuckets(virtualBucket).map(async (bucketName) => {
+		const bucketParams = new URLSearchParams();
+		if (prefix) bucketParams.set('prefix', prefix);
+		if (delimiter) bucketParams.set('delimiter', delimiter);
+		bucketParams.set('max-uploads', String(maxUploads));
+		if (keyMarker) bucketParams.set('key-marker', keyMarker);
+		const results = [
+			listBucketUploads(bucketName, bucketParams, env).then((result) => ({
+				...result,
+				// A common prefix equal to the marker was already returned: R2 rolls up the rest of its keys again
+				entries: result.entries.filter((entry) => entry.upload || entry.key !== keyMarker),
+			})),
+		];
+
+		if (markerListed) {
+			const markerParams = new URLSearchParams({ prefix: keyMarker, 'max-uploads': '1000' });
+			results.push(
+				listBucketUploads(bucketName, markerParams, env).then((result) => {
+					const markerUploads = result.entries.filter((entry) => entry.upload && entry.key === keyMarker);
+					// Other keys under the prefix are listed by the query above, so only count the marker key's uploads
+					return {
+						entries: markerUploads.filter((entry) => entry.upload!.UploadId > uploadIdMarker),
+						isTruncated: result.isTruncated && markerUploads.length === result.entries.length,
+					};
+				})
+			);
+		}
+
+		return Promise.all(results);
+	});
+
+	// Wait for all bucket requests to complete
+	const bucketResults = (await Promise.all(bucketRequests)).flat();
+
+	// Merge and process results. Each bucket returned its first maxUploads entries after the markers, so
+	// the first maxUploads of the merged list are the first maxUploads overall. A common prefix can span
+	// several buckets.
+	const entriesById = new Map<string, UploadEntry>();
+	let anyTruncated = false;
+
+	for (const result of bucketResults) {
+		for (const entry of result.entries) {
+			const id = entry.upload ? `${entry.key}\n${entry.upload.UploadId}` : entry.key;
+			if (!entriesById.has(id)) entriesById.set(id, entry);
+		}
+		if (result.isTruncated) anyTruncated = true;
+	}
+
+	const allEntries = [...entriesById.values()].sort(compareEntries);
+	const resultEntries = allEntries.slice(0, maxUploads);
+	const isTruncated = anyTruncated || maxUploads < allEntries.length;
+	const resultUploads = resultEntries.flatMap((entry) => (entry.upload ? [entry.upload] : []));
+	const commonPrefixes = resultEntries.filter((entry) => !entry.upload).map((entry) => ({ Prefix: entry.key }));
+
+	// Build response
+	const response: ListMultipartUploadsResponse = {
+		Bucket: virtualBucket.name,
+		KeyMarker: keyMarker || '',
+		UploadIdMarker: uploadIdMarker || '',
+		MaxUploads: maxUploads,
+		IsTruncated: isTruncated,
+		Upload: resultUploads.length > 0 ? resultUploads : undefined,
+	};
+
+	// A page can end on a common prefix, which has no upload ID and is skipped by the next page
+	if (isTruncated && resultEntries.length > 0) {
+		const last = resultEntries[resultEntries.length - 1];
+		response.NextKeyMarker = last.key;
+		if (last.upload) response.NextUploadIdMarker = last.upload.UploadId;
+	}
+	if (prefix) response.Prefix = prefix;
+	if (delimiter) response.Delimiter = delimiter;
+	if (commonPrefixes.length > 0) response.CommonPrefixes = commonPrefixes;
+
+	// Convert to XML
+	const builder = new XMLBuilder({
+		ignoreAttributes: false,
+		format: true,
+	});
+
+	const xmlResponse = builder.build({
+		ListMultipartUploadsResult: {
+			'@_xmlns': 'http://s3.amazonaws.com/doc/2006-03-01/',
+			...response,
+		},
+	});
+
+	return new Response(xmlResponse, {
+		headers: {
+			'Content-Type': 'application/xml',
+			'x-amz-request-id': crypto.randomUUID(),
+		},
+		status: 200,
+	});
+}
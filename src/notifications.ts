@@ -0,0 +1,192 @@
+import { NotificationRule, VirtualBucket } from './placement';
+import { forwardWithReshard } from './reshard';
+import { readDecrypted } from './encryption';
+import { hmac } from './sigv4';
+import { toHex } from './r2';
+import { getEnvBinding } from './env';
+
+// A Queue accepts at most this many messages per batch
+const QUEUE_BATCH_SIZE = 100;
+
+// An object event, as sent to queues and webhooks. It names the virtual bucket and logical key, never the
+// physical bucket the object is stored in.
+export interface ObjectEvent {
+	eventName: string;
+	eventTime: string;
+	bucket: string;
+	object: {
+		key: string;
+		// Sizes are the plaintext sizes of encrypted objects. Removed objects have neither size nor eTag.
+		size?: number;
+		eTag?: string;
+		versionId?: string;
+	};
+	// The client access key that made the write
+	accessKeyId: string;
+}
+
+function matchesRule(rule: NotificationRule, event: ObjectEvent): boolean {
+	const key = event.object.key;
+	return (
+		key.startsWith(rule.prefix) &&
+		key.endsWith(rule.suffix) &&
+		rule.events.some((name) => name === event.eventName || (name.endsWith(':*') && event.eventName.startsWith(name.slice(0, -1))))
+	);
+}
+
+// The event a write to a key emits, or null for requests that emit none (reads, parts and aborted uploads)
+function writeEventName(req: Request, url: URL): string | null {
+	const params = url.searchParams;
+	if (req.method === 'PUT' && !params.has('uploadId')) {
+		return req.headers.has('x-amz-copy-source') ? 'ObjectCreated:Copy' : 'ObjectCreated:Put';
+	}
+	if (req.method === 'POST' && params.has('uploadId')) {
+		return 'ObjectCreated:CompleteMultipartUpload';
+	}
+	if (req.method === 'DELETE' && !params.has('uploadId')) {
+		return 'ObjectRemoved:Delete';
+	}
+	return null;
+}
+
+// Sign a webhook body with HMAC-SHA256 over `<timestamp>.<body>`, so receivers can reject bodies that were
+// tampered with or replayed
+async function sendWebhook(url: string, secretName: string, events: ObjectEvent[], env: Env): Promise<void> {
+	const secret = getEnvBinding(env, secretName, 'secret');
+	if (!secret) {
+		throw new Error(`Webhook ${url} is signed with secret ${secretName}, which is not set`);
+	}
+	const body = JSON.stringify({ events });
+	const timestamp = String(Math.floor(Date.now() / 1000));
+	const signature = toHex(await hmac(new TextEncoder().encode(secret), `${timestamp}.${body}`));
+	const resp = await fetch(url, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			'X-Multiplex-Timestamp': timestamp,
+			'X-Multiplex-Signature': `sha256=${signature}`,
+		},
+		body,
+	});
+	await resp.body?.cancel();
+	if (!resp.ok) {
+		throw new Error(`Webhook ${url} answered ${resp.status}`);
+	}
+}
+
+async function sendToQueue(binding: string, events: ObjectEvent[], env: Env): Promise<void> {
+	const queue = getEnvBinding(env, binding, 'queue');
+	if (!queue) {
+		throw new Error(`Notifications are configured with queue ${binding}, which is not a queue`);
+	}
+	for (let i = 0; i < events.length; i += QUEUE_BATCH_SIZE) {
+		await queue.sendBatch(events.slice(i, i + QUEUE_BATCH_SIZE).map((body) => ({ body, contentType: 'json' })));
+	}
+}
+
+// Send events to every rule of the virtual bucket that selects them. A destination that fails is logged and its
+// events are dropped, since the writes they report already succeeded.
+export async function publishEvents(virtualBucket: VirtualBucket, events: ObjectEvent[], env: Env): Promise<void> {
+	await Promise.all(
+		virtualBucket.notifications.map(async (rule) => {
+			const matched = events.filter((event) => matchesRule(rule, event));
+			if (matched.length === 0) {
+				return;
+			}
+			try {
+				if (rule.destination.type === 'queue') {
+					await sendToQueue(rule.destination.binding, matched, env);
+				} else {
+					await sendWebhook(rule.destination.url, rule.destination.secret, matched, env);
+				}
+			} catch (error) {
+				console.error(`Failed to send ${matched.length} events for ${virtualBucket.name}:`, error);
+			}
+		})
+	);
+}
+
+// Build the event for a successful write. PutObject reports the size it was sent, while copies and completed
+// multipart uploads look the new object up, which also skips completions R2 answered with an error body.
+async function writeEvent(
+	eventName: string,
+	req: Request,
+	url: URL,
+	virtualBucket: VirtualBucket,
+	key: string,
+	resp: Response,
+	accessKeyId: string,
+	env: Env
+): Promise<ObjectEvent | null> {
+	const versionId = resp.headers.get('x-amz-version-id') ?? url.searchParams.get('versionId') ?? undefined;
+	const event: ObjectEvent = { eventName, eventTime: new Date().toISOString(), bucket: virtualBucket.name, object: { key }, accessKeyId };
+	if (versionId) event.object.versionId = versionId;
+
+	if (eventName === 'ObjectCreated:Put') {
+		const size = req.headers.get('x-amz-decoded-content-length') ?? req.headers.get('content-length');
+		if (size !== null) event.object.size = Number(size);
+		event.object.eTag = resp.headers.get('etag') ?? undefined;
+	} else if (eventName !== 'ObjectRemoved:Delete') {
+		const objectUrl = new URL(url.pathname, url.origin);
+		if (versionId) objectUrl.searchParams.set('versionId', versionId);
+		const head = await readDecrypted(new Request(objectUrl, { method: 'HEAD' }), env, (read) =>
+			forwardWithReshard(read, virtualBucket, key, objectUrl, env)
+		);
+		if (!head.ok) {
+			return null;
+		}
+		event.object.size = Number(head.headers.get('content-length'));
+		event.object.eTag = head.headers.get('etag') ?? undefined;
+	}
+	return event;
+}
+
+// Emit the event of a successful write to a key in the background, when a notification rule selects it
+export function notifyWrite(
+	req: Request,
+	url: URL,
+	virtualBucket: VirtualBucket,
+	key: string,
+	resp: Response,
+	accessKeyId: string,
+	env: Env,
+	ctx: ExecutionContext
+): void {
+	const eventName = writeEventName(req, url);
+	if (!eventName || !resp.ok) {
+		return;
+	}
+	// Check the rules before building the event, which may take a request
+	const probe: ObjectEvent = { eventName, eventTime: '', bucket: virtualBucket.name, object: { key }, accessKeyId };
+	if (!virtualBucket.notifications.some((rule) => matchesRule(rule, probe))) {
+		return;
+	}
+
+	ctx.waitUntil(
+		writeEvent(eventName, req, url, virtualBucket, key, resp, accessKeyId, env)
+			.then((event) => (event ? publishEvents(virtualBucket, [event], env) : undefined))
+			.catch((error) => console.error(`Failed to emit ${eventName} for ${key}:`, error))
+	);
+}
+
+// Emit ObjectRemoved:Delete for every key a DeleteObjects request deleted
+export function notifyDeletes(
+	virtualBucket: VirtualBucket,
+	deleted: { Key: string; VersionId?: string }[],
+	accessKeyId: string,
+	env: Env,
+	ctx: ExecutionContext
+): void {
+	if (virtualBucket.notifications.length === 0 || deleted.length === 0) {
+		return;
+	}
+	const eventTime = new Date().toISOString();
+	const events = deleted.map(({ Key, VersionId }) => ({
+		eventName: 'ObjectRemoved:Delete',
+		eventTime,
+		bucket: virtualBucket.name,
+		object: VersionId ? { key: Key, versionId: VersionId } : { key: Key },
+		accessKeyId,
+	}));
+	ctx.waitUntil(publishEvents(virtualBucket, events, env));
+}
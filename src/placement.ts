@@ -0,0 +1,528 @@
+// A physical bucket in the pool. Weight is relative: a bucket with weight 2 receives roughly twice the keys of a bucket with weight 1.
+export interface PoolMember {
+	name: string;
+	weight: number;
+	// Name of the R2 binding serving this bucket. Without one, the bucket is reached through the S3 API.
+	binding?: string;
+	// Name of the account in ACCOUNTS the bucket belongs to. Without one, it is the default account.
+	account?: string;
+}
+
+// Parse a bucket pool from config. Accepts a JSON array (or a JSON string of one) whose entries are either
+// bucket names or `{ name, weight?, binding?, account? }` objects, e.g. `["aaaa", { "name": "bbbb", "weight": 2, "binding": "BBBB" }]`.
+export function parseBucketPool(value: unknown): PoolMember[] {
+	const raw = typeof value === 'string' ? JSON.parse(value) : value;
+	if (!Array.isArray(raw) || raw.length === 0) {
+		throw new Error('Bucket pool must be a non-empty array');
+	}
+
+	const pool: PoolMember[] = [];
+	const seen = new Set<string>();
+	for (const entry of raw) {
+		const member: PoolMember = typeof entry === 'string' ? { name: entry, weight: 1 } : { name: entry?.name, weight: entry?.weight ?? 1 };
+		if (typeof member.name !== 'string' || !member.name) {
+			throw new Error(`Invalid bucket pool entry: ${JSON.stringify(entry)}`);
+		}
+		if (typeof member.weight !== 'number' || !(member.weight > 0) || !Number.isFinite(member.weight)) {
+			throw new Error(`Invalid weight for bucket ${member.name}: ${member.weight}`);
+		}
+		if (entry?.binding !== undefined) {
+			if (typeof entry.binding !== 'string' || !entry.binding) {
+				throw new Error(`Invalid binding for bucket ${member.name}: ${entry.binding}`);
+			}
+			member.binding = entry.binding;
+		}
+		if (entry?.account !== undefined) {
+			if (typeof entry.account !== 'string' || !entry.account) {
+				throw new Error(`Invalid account for bucket ${member.name}: ${entry.account}`);
+			}
+			member.account = entry.account;
+		}
+		if (seen.has(member.name)) {
+			throw new Error(`Duplicate bucket in pool: ${member.name}`);
+		}
+		seen.add(member.name);
+		pool.push(member);
+	}
+
+	return pool;
+}
+
+// How keys under a prefix are placed, instead of by hashing the whole key: by hashing only their first
+// `segments` path segments, or only the part before the first `delimiter` after the prefix, so related keys
+// share a bucket; or by pinning them to one `bucket` of the pool.
+export type PlacementRule =
+	| { prefix: string; segments: number }
+	| { prefix: string; delimiter: string }
+	| { prefix: string; bucket: string };
+
+// Parse placement rules from config, e.g. `[{ "prefix": "tenants/", "segments": 2 }, { "prefix": "shared/", "bucket": "media-1" }]`.
+// Pinned buckets must belong to the pool the rules place keys in.
+export function parsePlacementRules(value: unknown, pool: PoolMember[]): PlacementRule[] {
+	if (value === undefined) {
+		return [];
+	}
+	if (!Array.isArray(value)) {
+		throw new Error('Placement rules must be an array');
+	}
+
+	const rules: PlacementRule[] = [];
+	const seen = new Set<string>();
+	for (const entry of value) {
+		const prefix = entry?.prefix;
+		if (typeof prefix !== 'string' || !prefix) {
+			throw new Error(`Invalid placement rule: ${JSON.stringify(entry)}`);
+		}
+		if (seen.has(prefix)) {
+			throw new Error(`Duplicate placement rule for prefix: ${prefix}`);
+		}
+		seen.add(prefix);
+
+		const kinds = ['segments', 'delimiter', 'bucket'].filter((kind) => entry[kind] !== undefined);
+		if (kinds.length !== 1) {
+			throw new Error(`Placement rule for ${prefix} must have exactly one of segments, delimiter or bucket`);
+		}
+		if (entry.segments !== undefined) {
+			if (!Number.isInteger(entry.segments) || entry.segments < 1) {
+				throw new Error(`Invalid segments for placement rule ${prefix}: ${entry.segments}`);
+			}
+			rules.push({ prefix, segments: entry.segments });
+		} else if (entry.delimiter !== undefined) {
+			if (typeof entry.delimiter !== 'string' || !entry.delimiter) {
+				throw new Error(`Invalid delimiter for placement rule ${prefix}: ${entry.delimiter}`);
+			}
+			rules.push({ prefix, delimiter: entry.delimiter });
+		} else {
+			if (!pool.some((member) => member.name === entry.bucket)) {
+				throw new Error(`Placement rule ${prefix} pins a bucket outside the pool: ${entry.bucket}`);
+			}
+			rules.push({ prefix, bucket: entry.bucket });
+		}
+	}
+
+	return rules;
+}
+
+// Keys under a prefix are written to `replicas` buckets instead of one
+export interface ReplicationRule {
+	prefix: string;
+	replicas: number;
+}
+
+// Parse replication rules from config, e.g. `[{ "prefix": "hot/", "replicas": 3 }]`. A key cannot have more
+// replicas than the pool has buckets.
+export function parseReplicationRules(value: unknown, pool: PoolMember[]): ReplicationRule[] {
+	if (value === undefined) {
+		return [];
+	}
+	if (!Array.isArray(value)) {
+		throw new Error('Replication rules must be an array');
+	}
+
+	const rules: ReplicationRule[] = [];
+	for (const entry of value) {
+		const { prefix, replicas } = entry ?? {};
+		if (typeof prefix !== 'string' || rules.some((rule) => rule.prefix === prefix)) {
+			throw new Error(`Invalid replication rule: ${JSON.stringify(entry)}`);
+		}
+		if (!Number.isInteger(replicas) || replicas < 1 || replicas > pool.length) {
+			throw new Error(`Invalid replicas for replication rule ${prefix}: ${replicas}`);
+		}
+		rules.push({ prefix, replicas });
+	}
+
+	return rules;
+}
+
+// How long GET responses for keys under a prefix are kept in the edge cache. A ttl of 0 keeps keys under the
+// prefix out of the cache.
+export interface CacheRule {
+	prefix: string;
+	ttl: number;
+}
+
+// Parse cache rules from config, e.g. `[{ "prefix": "static/", "ttl": 3600 }, { "prefix": "static/drafts/", "ttl": 0 }]`
+export function parseCacheRules(value: unknown): CacheRule[] {
+	if (value === undefined) {
+		return [];
+	}
+	if (!Array.isArray(value)) {
+		throw new Error('Cache rules must be an array');
+	}
+
+	const rules: CacheRule[] = [];
+	for (const entry of value) {
+		const { prefix, ttl } = entry ?? {};
+		if (typeof prefix !== 'string' || rules.some((rule) => rule.prefix === prefix)) {
+			throw new Error(`Invalid cache rule: ${JSON.stringify(entry)}`);
+		}
+		if (!Number.isInteger(ttl) || ttl < 0) {
+			throw new Error(`Invalid ttl for cache rule ${prefix}: ${ttl}`);
+		}
+		rules.push({ prefix, ttl });
+	}
+
+	return rules;
+}
+
+// Which master key encrypts objects written under a prefix, by the name of the secret holding it. A null key keeps
+// keys under the prefix unencrypted.
+export interface EncryptionRule {
+	prefix: string;
+	key: string | null;
+}
+
+// Parse encryption rules from config, e.g. `[{ "prefix": "", "key": "MASTER_KEY" }, { "prefix": "public/", "key": null }]`
+// to encrypt the whole bucket but `public/`
+export function parseEncryptionRules(value: unknown): EncryptionRule[] {
+	if (value === undefined) {
+		return [];
+	}
+	if (!Array.isArray(value)) {
+		throw new Error('Encryption rules must be an array');
+	}
+
+	const rules: EncryptionRule[] = [];
+	for (const entry of value) {
+		const { prefix, key } = entry ?? {};
+		if (typeof prefix !== 'string' || rules.some((rule) => rule.prefix === prefix)) {
+			throw new Error(`Invalid encryption rule: ${JSON.stringify(entry)}`);
+		}
+		if (key !== null && (typeof key !== 'string' || !key)) {
+			throw new Error(`Invalid key for encryption rule ${prefix}: ${key}`);
+		}
+		rules.push({ prefix, key });
+	}
+
+	return rules;
+}
+
+// The object events the proxy emits, and the wildcards rules may select them with
+export const OBJECT_EVENTS = ['ObjectCreated:Put', 'ObjectCreated:Copy', 'ObjectCreated:CompleteMultipartUpload', 'ObjectRemoved:Delete'];
+const EVENT_WILDCARDS = ['ObjectCreated:*', 'ObjectRemoved:*'];
+
+// Where events for keys under a prefix and with a suffix are sent: a Queue binding, or a webhook signed with the
+// secret of the given name
+export interface NotificationRule {
+	prefix: string;
+	suffix: string;
+	events: string[];
+	destination: { type: 'queue'; binding: string } | { type: 'webhook'; url: string; secret: string };
+}
+
+// Parse notification rules from config, e.g. `[{ "prefix": "images/", "suffix": ".jpg", "queue": "EVENTS" }]` or
+// `[{ "events": ["ObjectRemoved:*"], "webhook": "https://example.com/hook", "secret": "WEBHOOK_SECRET" }]`. Rules
+// select every event unless they list some.
+export function parseNotificationRules(value: unknown): NotificationRule[] {
+	if (value === undefined) {
+		return [];
+	}
+	if (!Array.isArray(value)) {
+		throw new Error('Notification rules must be an array');
+	}
+
+	return value.map((entry) => {
+		const { prefix = '', suffix = '', events = EVENT_WILDCARDS, queue, webhook, secret } = entry ?? {};
+		if (typeof prefix !== 'string' || typeof suffix !== 'string') {
+			throw new Error(`Invalid notification rule: ${JSON.stringify(entry)}`);
+		}
+		if (
+			!Array.isArray(events) ||
+			events.length === 0 ||
+			!events.every((event) => OBJECT_EVENTS.includes(event) || EVENT_WILDCARDS.includes(event))
+		) {
+			throw new Error(`Invalid events for notification rule ${prefix}*${suffix}: ${JSON.stringify(events)}`);
+		}
+
+		if ((queue === undefined) === (webhook === undefined)) {
+			throw new Error(`Notification rule ${prefix}*${suffix} must have exactly one of queue or webhook`);
+		}
+		if (queue !== undefined) {
+			if (typeof queue !== 'string' || !queue) {
+				throw new Error(`Invalid queue for notification rule ${prefix}*${suffix}: ${queue}`);
+			}
+			return { prefix, suffix, events, destination: { type: 'queue' as const, binding: queue } };
+		}
+		const url = typeof webhook === 'string' && URL.canParse(webhook) ? new URL(webhook) : null;
+		if (!url || url.protocol !== 'https:') {
+			throw new Error(`Webhook for notification rule ${prefix}*${suffix} must be an https URL: ${webhook}`);
+		}
+		if (typeof secret !== 'string' || !secret) {
+			throw new Error(`Notification rule ${prefix}*${suffix} must name the secret its webhook is signed with`);
+		}
+		return { prefix, suffix, events, destination: { type: 'webhook' as const, url: url.href, secret } };
+	});
+}
+
+// A logical bucket exposed to clients, backed by its own pool of physical buckets
+export interface VirtualBucket {
+	name: string;
+	pool: PoolMember[];
+	// Rules placing keys in `pool`
+	placement: PlacementRule[];
+	// How many buckets of `pool` keys are written to
+	replication: ReplicationRule[];
+	// The pool that was active before `pool`, or null when no re-sharding is in progress
+	previousPool: PoolMember[] | null;
+	// Rules that placed keys in the previous pool
+	previousPlacement: PlacementRule[];
+	// Number of listing index shards serving lists, or 0 to list the buckets directly
+	indexShards: number;
+	// How long reads are cached at the edge, by prefix
+	cache: CacheRule[];
+	// Which master key encrypts objects at rest, by prefix
+	encryption: EncryptionRule[];
+	// Where object events are sent, by prefix and suffix
+	notifications: NotificationRule[];
+}
+
+// Parse the VIRTUAL_BUCKETS config: an object (or a JSON string of one) mapping each logical bucket name
+// to `{ buckets, previousBuckets?, placement?, previousPlacement?, replication?, indexShards?, cache?, encryption?,
+// notifications? }`, where both pools are as accepted by parseBucketPool, both placement rule lists as accepted
+// by parsePlacementRules, replication as accepted by parseReplicationRules, cache by parseCacheRules, encryption
+// by parseEncryptionRules and notifications by parseNotificationRules. previousPlacement defaults to placement.
+export function parseVirtualBuckets(value: unknown): Map<string, VirtualBucket> {
+	const raw = typeof value === 'string' ? JSON.parse(value) : value;
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		throw new Error('VIRTUAL_BUCKETS must be an object');
+	}
+
+	const virtualBuckets = new Map<string, VirtualBucket>();
+	// Physical bucket -> virtual bucket, since two logical buckets sharing storage would see each other's keys
+	const owners = new Map<string, string>();
+
+	for (const [name, config] of Object.entries(
+		raw as Record<
+			string,
+			{
+				buckets?: unknown;
+				previousBuckets?: unknown;
+				placement?: unknown;
+				previousPlacement?: unknown;
+				replication?: unknown;
+				indexShards?: unknown;
+				cache?: unknown;
+				encryption?: unknown;
+				notifications?: unknown;
+			}
+		>
+	)) {
+		const pool = parseBucketPool(config?.buckets);
+		const previousBuckets = config?.previousBuckets;
+		const previousPool = Array.isArray(previousBuckets) && previousBuckets.length > 0 ? parseBucketPool(previousBuckets) : null;
+		const placement = parsePlacementRules(config?.placement, pool);
+		const previousPlacement =
+			config?.previousPlacement === undefined ? placement : parsePlacementRules(config.previousPlacement, previousPool ?? pool);
+		const replication = parseReplicationRules(config?.replication, pool);
+		const cache = parseCacheRules(config?.cache);
+		const encryption = parseEncryptionRules(config?.encryption);
+		const notifications = parseNotificationRules(config?.notifications);
+		const indexShards = config?.indexShards ?? 0;
+		if (typeof indexShards !== 'number' || !Number.isInteger(indexShards) || indexShards < 0) {
+			throw new Error(`Invalid indexShards for ${name}: ${indexShards}`);
+		}
+
+		for (const member of [...pool, ...(previousPool ?? [])]) {
+			const owner = owners.get(member.name);
+			if (owner && owner !== name) {
+				throw new Error(`Bucket ${member.name} is used by both ${owner} and ${name}`);
+			}
+			owners.set(member.name, name);
+		}
+
+		virtualBuckets.set(name, {
+			name,
+			pool,
+			placement,
+			replication,
+			previousPool,
+			previousPlacement,
+			indexShards,
+			cache,
+			encryption,
+			notifications,
+		});
+	}
+
+	return virtualBuckets;
+}
+
+interface ParsedConfig {
+	virtualBuckets: Map<string, VirtualBucket>;
+	// Pool entries by physical bucket name, current pools before previous ones
+	poolMembers: Map<string, PoolMember>;
+}
+
+// Parsed config by env, so VIRTUAL_BUCKETS is parsed once per isolate rather than on every lookup
+const parsedConfigs = new WeakMap<Env, ParsedConfig>();
+
+function getParsedConfig(env: Env): ParsedConfig {
+	let config = parsedConfigs.get(env);
+	if (!config) {
+		const virtualBuckets = parseVirtualBuckets(env.VIRTUAL_BUCKETS);
+		const poolMembers = new Map<string, PoolMember>();
+		for (const virtualBucket of virtualBuckets.values()) {
+			for (const member of [...virtualBucket.pool, ...(virtualBucket.previousPool ?? [])]) {
+				if (!poolMembers.has(member.name)) poolMembers.set(member.name, member);
+			}
+		}
+		config = { virtualBuckets, poolMembers };
+		parsedConfigs.set(env, config);
+	}
+	return config;
+}
+
+export function getVirtualBucket(env: Env, name: string): VirtualBucket | undefined {
+	return getParsedConfig(env).virtualBuckets.get(name);
+}
+
+export function getVirtualBuckets(env: Env): VirtualBucket[] {
+	return [...getParsedConfig(env).virtualBuckets.values()];
+}
+
+// Find a physical bucket's pool entry in any virtual bucket, current or previous pool
+export function findPoolMember(env: Env, bucketName: string): PoolMember | undefined {
+	return getParsedConfig(env).poolMembers.get(bucketName);
+}
+
+// Every bucket that may hold objects: the current pool plus, while re-sharding, the previous one
+export function getListingBuckets(virtualBucket: VirtualBucket): string[] {
+	const names = new Set(virtualBucket.pool.map((m) => m.name));
+	for (const member of virtualBucket.previousPool ?? []) {
+		names.add(member.name);
+	}
+	return [...names];
+}
+
+// Hash a bucket/key pair to a float in the open interval (0, 1) using the top 53 bits of its SHA-256
+async function hashToUnitInterval(bucketName: string, key: string): Promise<number> {
+	const data = new TextEncoder().encode(`${bucketName}\n${key}`);
+	const hash = new DataView(await crypto.subtle.digest('SHA-256', data));
+	const high = hash.getUint32(0) >>> 11; // top 21 bits
+	const low = hash.getUint32(4); // next 32 bits
+	return (high * 2 ** 32 + low + 0.5) / 2 ** 53;
+}
+
+// Rank the pool for a key using weighted rendezvous (highest random weight) hashing. Each bucket scores
+// weight / -ln(u) for its own hash u of the key, so adding or removing one bucket only moves the keys
+// that bucket wins or loses: about 1/N of them.
+//
+// Placement must stay stable across releases, so the hash input and score formula must never change.
+// test/placement.spec.ts pins a set of keys to their buckets to catch accidental changes.
+export async function rankBuckets(key: string, pool: PoolMember[]): Promise<PoolMember[]> {
+	const scored = await Promise.all(
+		pool.map(async (member) => ({
+			member,
+			score: member.weight / -Math.log(await hashToUnitInterval(member.name, key)),
+		}))
+	);
+
+	// Break (practically impossible) ties by name so the order is total
+	scored.sort((a, b) => b.score - a.score || (a.member.name < b.member.name ? -1 : 1));
+	return scored.map((s) => s.member);
+}
+
+export async function pickBucket(key: string, pool: PoolMember[]): Promise<string> {
+	const [winner] = await rankBuckets(key, pool);
+	return winner.name;
+}
+
+// The rule governing a key: the one with the longest prefix the key starts with
+function findRule(key: string, rules: PlacementRule[]): PlacementRule | undefined {
+	let found: PlacementRule | undefined;
+	for (const rule of rules) {
+		if (key.startsWith(rule.prefix) && (!found || rule.prefix.length > found.prefix.length)) {
+			found = rule;
+		}
+	}
+	return found;
+}
+
+// The part of a key that is hashed to place it
+export function placementKey(key: string, rules: PlacementRule[]): string {
+	const rule = findRule(key, rules);
+	if (rule && 'segments' in rule) {
+		return key.split('/').slice(0, rule.segments).join('/');
+	}
+	if (rule && 'delimiter' in rule) {
+		const index = key.indexOf(rule.delimiter, rule.prefix.length);
+		return index === -1 ? key : key.slice(0, index);
+	}
+	return key;
+}
+
+async function placeInPool(key: string, pool: PoolMember[], rules: PlacementRule[]): Promise<string> {
+	const rule = findRule(key, rules);
+	if (rule && 'bucket' in rule) {
+		return rule.bucket;
+	}
+	return pickBucket(placementKey(key, rules), pool);
+}
+
+// The bucket a key belongs in
+export function placeKey(virtualBucket: VirtualBucket, key: string): Promise<string> {
+	return placeInPool(key, virtualBucket.pool, virtualBucket.placement);
+}
+
+// The buckets a key is written to, its primary first. The primary is the bucket placeKey picks, and the other
+// replicas are the next buckets in its ranking. Keys pinned to a bucket have no other replicas.
+export async function placeReplicas(virtualBucket: VirtualBucket, key: string): Promise<string[]> {
+	let replicas = 1;
+	let matched = '';
+	for (const rule of virtualBucket.replication) {
+		if (key.startsWith(rule.prefix) && rule.prefix.length >= matched.length) {
+			replicas = rule.replicas;
+			matched = rule.prefix;
+		}
+	}
+
+	const rule = findRule(key, virtualBucket.placement);
+	if (replicas === 1 || (rule && 'bucket' in rule)) {
+		return [await placeKey(virtualBucket, key)];
+	}
+	const ranking = await rankBuckets(placementKey(key, virtualBucket.placement), virtualBucket.pool);
+	return ranking.slice(0, replicas).map((member) => member.name);
+}
+
+// The bucket a key belonged in before re-sharding, or null when no re-sharding is in progress
+export async function placePreviousKey(virtualBucket: VirtualBucket, key: string): Promise<string | null> {
+	return virtualBucket.previousPool ? placeInPool(key, virtualBucket.previousPool, virtualBucket.previousPlacement) : null;
+}
+
+// The one bucket of a pool every key starting with prefix is placed in, or null if they may be spread out.
+// That is the case when the rule governing the prefix fixes the hashed part of its keys.
+async function placePrefixInPool(prefix: string, pool: PoolMember[], rules: PlacementRule[]): Promise<string | null> {
+	// Keys under the prefix may fall under a longer rule
+	if (rules.some((rule) => rule.prefix.length > prefix.length && rule.prefix.startsWith(prefix))) {
+		return null;
+	}
+
+	const rule = findRule(prefix, rules);
+	if (!rule) {
+		return null;
+	}
+	if ('bucket' in rule) {
+		return rule.bucket;
+	}
+	if ('segments' in rule) {
+		const segments = prefix.split('/');
+		return segments.length > rule.segments ? pickBucket(segments.slice(0, rule.segments).join('/'), pool) : null;
+	}
+	const index = prefix.indexOf(rule.delimiter, rule.prefix.length);
+	return index === -1 ? null : pickBucket(prefix.slice(0, index), pool);
+}
+
+// The buckets that may hold keys starting with prefix: fewer than getListingBuckets when placement rules keep
+// them together
+export async function getPrefixBuckets(virtualBucket: VirtualBucket, prefix: string): Promise<string[]> {
+	const bucket = await placePrefixInPool(prefix, virtualBucket.pool, virtualBucket.placement);
+	if (!bucket) {
+		return getListingBuckets(virtualBucket);
+	}
+	if (!virtualBucket.previousPool) {
+		return [bucket];
+	}
+
+	const previousBucket = await placePrefixInPool(prefix, virtualBucket.previousPool, virtualBucket.previousPlacement);
+	return previousBucket ? [...new Set([bucket, previousBucket])] : getListingBuckets(virtualBucket);
+}
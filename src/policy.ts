@@ -0,0 +1,76 @@
+// An IAM-like policy attached to a client credential. Omitted fields allow everything.
+//
+//   actions:  S3 action names, optionally `s3:`-prefixed, with `*` wildcards (e.g. `GetObject`, `List*`)
+//   prefixes: key prefixes the credential may read, write or list under
+//   buckets:  virtual buckets the credential may access
+export interface AccessPolicy {
+	actions?: string[];
+	prefixes?: string[];
+	buckets?: string[];
+}
+
+// What a request wants to do, resolved from its method, path and query before it is forwarded
+export interface AccessRequest {
+	action: string;
+	bucket?: string;
+	// The object key for object operations, or the list prefix for list operations
+	key?: string;
+}
+
+// Map a request to the S3 action that authorizes it, following the AWS action names
+export function resolveAction(method: string, key: string, params: URLSearchParams): string {
+	if (!key) {
+		if (params.has('uploads')) return 'ListBucketMultipartUploads';
+		if (params.has('versions')) return 'ListBucketVersions';
+		if (method === 'POST' && params.has('delete')) return 'DeleteObject';
+		return 'ListBucket';
+	}
+
+	const uploadId = params.has('uploadId');
+	const versionId = params.has('versionId');
+	switch (method) {
+		case 'GET':
+		case 'HEAD':
+			if (uploadId) return 'ListMultipartUploadParts';
+			return versionId ? 'GetObjectVersion' : 'GetObject';
+		case 'DELETE':
+			if (uploadId) return 'AbortMultipartUpload';
+			return versionId ? 'DeleteObjectVersion' : 'DeleteObject';
+		default:
+			// PUT, UploadPart, CreateMultipartUpload and CompleteMultipartUpload all need PutObject
+			return 'PutObject';
+	}
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+	const regex = new RegExp(
+		'^' +
+			pattern
+				.split('*')
+				.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+				.join('.*') +
+			'$'
+	);
+	return regex.test(value);
+}
+
+// Check a request against a policy. A null policy allows everything.
+export function isAllowed(policy: AccessPolicy | null, request: AccessRequest): boolean {
+	if (!policy) {
+		return true;
+	}
+
+	if (policy.actions && !policy.actions.some((pattern) => matchesPattern(pattern.replace(/^s3:/, ''), request.action))) {
+		return false;
+	}
+
+	if (policy.buckets && request.bucket !== undefined && !policy.buckets.some((pattern) => matchesPattern(pattern, request.bucket!))) {
+		return false;
+	}
+
+	if (policy.prefixes && request.key !== undefined && !policy.prefixes.some((prefix) => request.key!.startsWith(prefix))) {
+		return false;
+	}
+
+	return true;
+}
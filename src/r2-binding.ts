@@ -0,0 +1,518 @@
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { asArray, compareKeys, sendR2Request } from './r2';
+import { s3ErrorResponse } from './errors';
+import { encodePath } from './addressing';
+
+// Request headers that map onto an object's HTTP metadata
+const HTTP_METADATA_HEADERS: [string, keyof R2HTTPMetadata][] = [
+	['content-type', 'contentType'],
+	['content-language', 'contentLanguage'],
+	['content-disposition', 'contentDisposition'],
+	['content-encoding', 'contentEncoding'],
+	['cache-control', 'cacheControl'],
+];
+
+// Query parameters of a GET that override the response headers, as presigned download links use them
+const RESPONSE_OVERRIDES = ['content-type', 'content-language', 'content-disposition', 'content-encoding', 'cache-control', 'expires'];
+
+// An object without versioning has one version, whose ID is the literal `null`
+const NULL_VERSION = 'null';
+
+function xmlResult(root: string, body: Record<string, unknown>, headers?: Record<string, string>): Response {
+	const builder = new XMLBuilder({
+		ignoreAttributes: false,
+		format: true,
+	});
+
+	const xmlResponse = builder.build({
+		'?xml': { '@_version': '1.0', '@_encoding': 'UTF-8' },
+		[root]: {
+			'@_xmlns': 'http://s3.amazonaws.com/doc/2006-03-01/',
+			...body,
+		},
+	});
+
+	return new Response(xmlResponse, {
+		headers: {
+			'Content-Type': 'application/xml',
+			'x-amz-request-id': crypto.randomUUID(),
+			...headers,
+		},
+		status: 200,
+	});
+}
+
+// Leave empty lists out of XML results, like S3 does
+function nonEmpty<T>(items: T[]): T[] | undefined {
+	return items.length > 0 ? items : undefined;
+}
+
+function notImplemented(operation: string): Response {
+	return s3ErrorResponse('NotImplemented', `${operation} is not supported for buckets served by an R2 binding`, 501);
+}
+
+// Read the metadata to store with an object from request (or source object) headers
+function readMetadata(headers: Headers): { httpMetadata: R2HTTPMetadata; customMetadata: Record<string, string> } {
+	const httpMetadata: R2HTTPMetadata = {};
+	for (const [header, field] of HTTP_METADATA_HEADERS) {
+		const value = headers.get(header);
+		if (value) (httpMetadata as Record<string, string>)[field] = value;
+	}
+	const expires = headers.get('expires');
+	if (expires && !Number.isNaN(Date.parse(expires))) {
+		httpMetadata.cacheExpiry = new Date(expires);
+	}
+
+	const customMetadata: Record<string, string> = {};
+	for (const [name, value] of headers) {
+		if (name.startsWith('x-amz-meta-')) customMetadata[name.slice('x-amz-meta-'.length)] = value;
+	}
+	return { httpMetadata, customMetadata };
+}
+
+// The headers S3 returns for an object on GET and HEAD
+function objectHeaders(object: R2Object, params: URLSearchParams): Headers {
+	const headers = new Headers();
+	object.writeHttpMetadata(headers);
+	for (const [name, value] of Object.entries(object.customMetadata ?? {})) {
+		headers.set(`x-amz-meta-${name}`, value);
+	}
+	headers.set('etag', object.httpEtag);
+	headers.set('last-modified', object.uploaded.toUTCString());
+	headers.set('accept-ranges', 'bytes');
+	headers.set('x-amz-request-id', crypto.randomUUID());
+	for (const header of RESPONSE_OVERRIDES) {
+		const value = params.get(`response-${header}`);
+		if (value) headers.set(header, value);
+	}
+	return headers;
+}
+
+// Evaluate conditional request headers against an object the way S3 does: 412 when If-Match or
+// If-Unmodified-Since fails, 304 when If-None-Match or If-Modified-Since fails, or null when they all hold
+function checkConditions(object: R2Object, headers: Headers): 304 | 412 | null {
+	const matches = (value: string) =>
+		value.split(',').some((tag) => {
+			const trimmed = tag.trim().replace(/^W\//, '');
+			return trimmed === '*' || trimmed === object.httpEtag || trimmed === object.etag;
+		});
+	// HTTP dates have a resolution of one second
+	const uploaded = Math.floor(object.uploaded.getTime() / 1000) * 1000;
+
+	const ifMatch = headers.get('if-match');
+	if (ifMatch && !matches(ifMatch)) return 412;
+	const ifUnmodifiedSince = headers.get('if-unmodified-since');
+	if (!ifMatch && ifUnmodifiedSince && uploaded > Date.parse(ifUnmodifiedSince)) return 412;
+	const ifNoneMatch = headers.get('if-none-match');
+	if (ifNoneMatch && matches(ifNoneMatch)) return 304;
+	const ifModifiedSince = headers.get('if-modified-since');
+	if (!ifNoneMatch && ifModifiedSince && uploaded <= Date.parse(ifModifiedSince)) return 304;
+	return null;
+}
+
+function preconditionFailed(): Response {
+	return s3ErrorResponse('PreconditionFailed', 'At least one of the pre-conditions you specified did not hold', 412);
+}
+
+// The binding only accepts streams of a known length: request bodies sent with a content-length, and the
+// readable side of a FixedLengthStream, which is what streamed uploads and copies use. Any other body is
+// read into memory.
+async function toUploadBody(
+	body: ArrayBuffer | ReadableStream | undefined,
+	headers: Headers
+): Promise<ArrayBuffer | ReadableStream | null> {
+	if (body instanceof ReadableStream && !headers.has('content-length')) {
+		return new Response(body).arrayBuffer();
+	}
+	return body ?? null;
+}
+
+// Map an exception thrown by the binding to the S3 error it stands for
+function bindingErrorResponse(error: unknown): Response {
+	const message = error instanceof Error ? error.message : String(error);
+	console.error('R2 binding request failed:', message);
+
+	if (/upload does not exist/i.test(message)) {
+		return s3ErrorResponse('NoSuchUpload', 'The specified multipart upload does not exist.', 404);
+	}
+	if (/digest/i.test(message)) {
+		return s3ErrorResponse('BadDigest', 'The Content-MD5 you specified did not match what we received.', 400);
+	}
+	if (/range/i.test(message)) {
+		return s3ErrorResponse('InvalidRange', 'The requested range is not satisfiable', 416);
+	}
+	if (/parts? could not be found|invalid part/i.test(message)) {
+		return s3ErrorResponse('InvalidPart', 'One or more of the specified parts could not be found.', 400);
+	}
+	return s3ErrorResponse('InternalError', 'We encountered an internal error. Please try again.', 500);
+}
+
+// Serve an S3 request for a physical bucket through its R2 binding, answering with the response R2's S3 API
+// would have given. Objects are unversioned: their only version is `null`.
+export async function handleBindingRequest(
+	bucket: R2Bucket,
+	bucketName: string,
+	method: string,
+	path: string,
+	env: Env,
+	params: URLSearchParams,
+	headers: Headers,
+	body?: ArrayBuffer | ReadableStream,
+	payloadHash?: string
+): Promise<Response> {
+	const key = path.slice(1);
+	try {
+		const response = key
+			? await handleObjectRequest(bucket, bucketName, method, key, env, params, headers, body, payloadHash)
+			: await handleBucketRequest(bucket, bucketName, method, params, body);
+		// HEAD responses never have a body
+		return method === 'HEAD' && response.body ? new Response(null, { status: response.status, headers: response.headers }) : response;
+	} catch (error) {
+		return bindingErrorResponse(error);
+	}
+}
+
+async function handleObjectRequest(
+	bucket: R2Bucket,
+	bucketName: string,
+	method: string,
+	key: string,
+	env: Env,
+	params: URLSearchParams,
+	headers: Headers,
+	body?: ArrayBuffer | ReadableStream,
+	payloadHash?: string
+): Promise<Response> {
+	const versionId = params.get('versionId');
+	if (versionId !== null && versionId !== NULL_VERSION) {
+		return s3ErrorResponse('NoSuchVersion', 'The specified version does not exist.', 404, { Key: key, VersionId: versionId });
+	}
+
+	const uploadId = params.get('uploadId');
+	if (uploadId !== null) {
+		return handleMultipartRequest(bucket, bucketName, method, key, uploadId, env, params, headers, body);
+	}
+
+	switch (method) {
+		case 'GET': {
+			const object = await bucket.get(key, { range: headers, onlyIf: headers });
+			if (!object) {
+				return s3ErrorResponse('NoSuchKey', 'The specified key does not exist.', 404, { Key: key });
+			}
+			if (!('body' in object)) {
+				const status = checkConditions(object, headers) ?? 412;
+				return status === 304 ? new Response(null, { status, headers: objectHeaders(object, params) }) : preconditionFailed();
+			}
+
+			const responseHeaders = objectHeaders(object, params);
+			const range = object.range;
+			if (!headers.has('range') || !range) {
+				responseHeaders.set('content-length', String(object.size));
+				return new Response(object.body, { status: 200, headers: responseHeaders });
+			}
+
+			const start = 'suffix' in range ? Math.max(object.size - range.suffix, 0) : range.offset ?? 0;
+			const end = 'suffix' in range || range.length === undefined ? object.size - 1 : start + range.length - 1;
+			responseHeaders.set('content-length', String(end - start + 1));
+			responseHeaders.set('content-range', `bytes ${start}-${end}/${object.size}`);
+			return new Response(object.body, { status: 206, headers: responseHeaders });
+		}
+
+		case 'HEAD': {
+			const object = await bucket.head(key);
+			if (!object) {
+				return new Response(null, { status: 404 });
+			}
+			const status = checkConditions(object, headers);
+			if (status === 412) {
+				return new Response(null, { status });
+			}
+			const responseHeaders = objectHeaders(object, params);
+			responseHeaders.set('content-length', String(object.size));
+			return new Response(null, { status: status ?? 200, headers: responseHeaders });
+		}
+
+		case 'PUT': {
+			if (headers.has('x-amz-copy-source')) {
+				return copyObject(bucket, key, env, null, headers);
+			}
+
+			const options: R2PutOptions = { ...readMetadata(headers), onlyIf: headers };
+			const contentMd5 = headers.get('content-md5');
+			if (contentMd5) {
+				options.md5 = Uint8Array.from(atob(contentMd5), (c) => c.charCodeAt(0)).buffer as ArrayBuffer;
+			}
+			// A client-supplied payload hash is checked by R2 like it would be over the S3 API
+			if (payloadHash && /^[0-9a-f]{64}$/.test(payloadHash)) {
+				options.sha256 = payloadHash;
+			}
+
+			const object = await bucket.put(key, await toUploadBody(body, headers), options);
+			if (!object) {
+				return preconditionFailed();
+			}
+			return new Response(null, { status: 200, headers: { etag: object.httpEtag, 'x-amz-request-id': crypto.randomUUID() } });
+		}
+
+		case 'POST': {
+			if (!params.has('uploads')) break;
+
+			// CreateMultipartUpload
+			const upload = await bucket.createMultipartUpload(key, readMetadata(headers));
+			return xmlResult('InitiateMultipartUploadResult', { Bucket: bucketName, Key: key, UploadId: upload.uploadId });
+		}
+
+		case 'DELETE': {
+			// The binding cannot delete conditionally, so check the condition first
+			if (headers.has('if-match')) {
+				const object = await bucket.head(key);
+				if (!object) {
+					return s3ErrorResponse('NoSuchKey', 'The specified key does not exist.', 404, { Key: key });
+				}
+				if (checkConditions(object, headers) === 412) {
+					return preconditionFailed();
+				}
+			}
+
+			await bucket.delete(key);
+			return new Response(null, { status: 204 });
+		}
+	}
+
+	return s3ErrorResponse('MethodNotAllowed', 'The specified method is not allowed against this resource.', 405);
+}
+
+// Copy a source object into key (CopyObject), or into a part of a multipart upload (UploadPartCopy). The
+// source is read through sendR2Request, so it may live in any bucket, bound or not.
+async function copyObject(
+	bucket: R2Bucket,
+	key: string,
+	env: Env,
+	upload: { part: number; upload: R2MultipartUpload } | null,
+	headers: Headers
+) {
+	const [sourcePath, sourceQuery] = headers.get('x-amz-copy-source')!.split('?', 2);
+	const [sourceBucket, ...keyParts] = sourcePath.replace(/^\//, '').split('/');
+	const sourceKey = decodeURIComponent(keyParts.join('/'));
+
+	// x-amz-copy-source-if-* become the plain conditional headers of a GET
+	const getHeaders = new Headers();
+	for (const [name, value] of headers) {
+		if (name.startsWith('x-amz-copy-source-if-')) getHeaders.set(name.slice('x-amz-copy-source-'.length), value);
+	}
+	const range = headers.get('x-amz-copy-source-range');
+	if (range && upload) {
+		getHeaders.set('range', range);
+	}
+
+	const source = await sendR2Request('GET', sourceBucket, `/${sourceKey}`, env, new URLSearchParams(sourceQuery), getHeaders);
+	if (source.status === 304 || source.status === 412) {
+		await source.body?.cancel();
+		return preconditionFailed();
+	}
+	if (!source.ok || !source.body) {
+		return source;
+	}
+
+	const sourceBody = source.body.pipeThrough(new FixedLengthStream(Number(source.headers.get('content-length'))));
+	if (upload) {
+		const part = await upload.upload.uploadPart(upload.part, sourceBody);
+		return xmlResult('CopyPartResult', { LastModified: new Date().toISOString(), ETag: `"${part.etag}"` });
+	}
+
+	const replaceMetadata = headers.get('x-amz-metadata-directive')?.toUpperCase() === 'REPLACE';
+	const object = (await bucket.put(key, sourceBody, readMetadata(replaceMetadata ? headers : source.headers)))!;
+	return xmlResult('CopyObjectResult', { LastModified: object.uploaded.toISOString(), ETag: object.httpEtag });
+}
+
+async function handleMultipartRequest(
+	bucket: R2Bucket,
+	bucketName: string,
+	method: string,
+	key: string,
+	uploadId: string,
+	env: Env,
+	params: URLSearchParams,
+	headers: Headers,
+	body?: ArrayBuffer | ReadableStream
+): Promise<Response> {
+	const upload = bucket.resumeMultipartUpload(key, uploadId);
+
+	// UploadPart and UploadPartCopy
+	if (method === 'PUT') {
+		const partNumber = Number(params.get('partNumber'));
+		if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+			return s3ErrorResponse('InvalidArgument', 'Part number must be an integer between 1 and 10000, inclusive', 400, {
+				ArgumentName: 'partNumber',
+			});
+		}
+		if (headers.has('x-amz-copy-source')) {
+			return copyObject(bucket, key, env, { part: partNumber, upload }, headers);
+		}
+
+		const part = await upload.uploadPart(partNumber, (await toUploadBody(body, headers)) ?? new ArrayBuffer(0));
+		return new Response(null, { status: 200, headers: { etag: `"${part.etag}"`, 'x-amz-request-id': crypto.randomUUID() } });
+	}
+
+	// CompleteMultipartUpload
+	if (method === 'POST') {
+		const xmlText = body instanceof ReadableStream ? await new Response(body).text() : new TextDecoder().decode(body);
+		const parser = new XMLParser({ parseTagValue: false });
+		const parts = asArray<{ PartNumber: string; ETag: string }>(parser.parse(xmlText)?.CompleteMultipartUpload?.Part).map((part) => ({
+			partNumber: Number(part.PartNumber),
+			etag: String(part.ETag).replace(/"/g, ''),
+		}));
+
+		const object = await upload.complete(parts);
+		return xmlResult('CompleteMultipartUploadResult', {
+			Location: `/${bucketName}/${encodePath(key)}`,
+			Bucket: bucketName,
+			Key: key,
+			ETag: object.httpEtag,
+		});
+	}
+
+	// AbortMultipartUpload
+	if (method === 'DELETE') {
+		await upload.abort();
+		return new Response(null, { status: 204 });
+	}
+
+	return notImplemented('ListParts');
+}
+
+async function handleBucketRequest(
+	bucket: R2Bucket,
+	bucketName: string,
+	method: string,
+	params: URLSearchParams,
+	body?: ArrayBuffer | ReadableStream
+): Promise<Response> {
+	if (method === 'POST' && params.has('delete')) {
+		return deleteObjects(bucket, body);
+	}
+	if (method !== 'GET') {
+		return s3ErrorResponse('MethodNotAllowed', 'The specified method is not allowed against this resource.', 405);
+	}
+	if (params.has('uploads')) {
+		return notImplemented('ListMultipartUploads');
+	}
+
+	const prefix = params.get('prefix') || '';
+	const delimiter = params.get('delimiter') || '';
+	const maxKeys = Math.min(Number(params.get('max-keys') || '1000'), 1000);
+	if (!Number.isInteger(maxKeys) || maxKeys < 0) {
+		return s3ErrorResponse('InvalidArgument', 'max-keys must be an integer between 0 and 1000', 400, { ArgumentName: 'max-keys' });
+	}
+
+	if (params.has('versions')) {
+		// Every object is its own latest and only version
+		const keyMarker = params.get('key-marker') || '';
+		const listed = await listPage(bucket, { prefix, delimiter, maxKeys, startAfter: keyMarker });
+		const last = listed.entries[listed.entries.length - 1];
+		return xmlResult('ListVersionsResult', {
+			Name: bucketName,
+			Prefix: prefix,
+			KeyMarker: keyMarker,
+			VersionIdMarker: params.get('version-id-marker') || '',
+			MaxKeys: maxKeys,
+			IsTruncated: listed.truncated,
+			NextKeyMarker: listed.truncated ? last : undefined,
+			NextVersionIdMarker: listed.truncated && !listed.prefixes.includes(last) ? NULL_VERSION : undefined,
+			Delimiter: delimiter || undefined,
+			Version: nonEmpty(
+				listed.objects.map((object) => ({
+					Key: object.key,
+					VersionId: NULL_VERSION,
+					IsLatest: true,
+					LastModified: object.uploaded.toISOString(),
+					ETag: object.httpEtag,
+					Size: object.size,
+					StorageClass: 'STANDARD',
+				}))
+			),
+			CommonPrefixes: nonEmpty(listed.prefixes.map((commonPrefix) => ({ Prefix: commonPrefix }))),
+		});
+	}
+
+	if (params.get('list-type') === '2') {
+		const continuationToken = params.get('continuation-token');
+		const startAfter = params.get('start-after') || '';
+		const listed = await listPage(bucket, { prefix, delimiter, maxKeys, startAfter, cursor: continuationToken ?? undefined });
+		return xmlResult('ListBucketResult', {
+			Name: bucketName,
+			Prefix: prefix,
+			Delimiter: delimiter || undefined,
+			MaxKeys: maxKeys,
+			KeyCount: listed.entries.length,
+			IsTruncated: listed.truncated,
+			ContinuationToken: continuationToken ?? undefined,
+			NextContinuationToken: listed.cursor,
+			StartAfter: startAfter || undefined,
+			Contents: nonEmpty(
+				listed.objects.map((object) => ({
+					Key: object.key,
+					LastModified: object.uploaded.toISOString(),
+					ETag: object.httpEtag,
+					Size: object.size,
+					StorageClass: 'STANDARD',
+				}))
+			),
+			CommonPrefixes: nonEmpty(listed.prefixes.map((commonPrefix) => ({ Prefix: commonPrefix }))),
+		});
+	}
+
+	return notImplemented('This list operation');
+}
+
+// One page of a bucket listing. The binding's cursor is opaque and serves as the continuation token.
+async function listPage(
+	bucket: R2Bucket,
+	options: { prefix: string; delimiter: string; maxKeys: number; startAfter: string; cursor?: string }
+): Promise<{ objects: R2Object[]; prefixes: string[]; entries: string[]; truncated: boolean; cursor?: string }> {
+	if (options.maxKeys === 0) {
+		return { objects: [], prefixes: [], entries: [], truncated: false };
+	}
+
+	const listed = await bucket.list({
+		prefix: options.prefix || undefined,
+		delimiter: options.delimiter || undefined,
+		limit: options.maxKeys,
+		cursor: options.cursor,
+		startAfter: options.cursor ? undefined : options.startAfter || undefined,
+	});
+	const prefixes = listed.delimitedPrefixes;
+	return {
+		objects: listed.objects,
+		prefixes,
+		entries: [...listed.objects.map((object) => object.key), ...prefixes].sort(compareKeys),
+		truncated: listed.truncated,
+		cursor: listed.truncated ? listed.cursor : undefined,
+	};
+}
+
+// DeleteObjects: the binding deletes up to 1000 keys at once and does not report them individually
+async function deleteObjects(bucket: R2Bucket, body?: ArrayBuffer | ReadableStream): Promise<Response> {
+	const xmlText = body instanceof ReadableStream ? await new Response(body).text() : new TextDecoder().decode(body);
+	const parser = new XMLParser({
+		parseTagValue: false,
+		trimValues: false,
+	});
+	const request = parser.parse(xmlText)?.Delete;
+	const objects = asArray<{ Key: string; VersionId?: string }>(request?.Object);
+	const quiet = String(request?.Quiet).trim() === 'true';
+
+	const deleted = objects.filter((object) => object.VersionId === undefined || object.VersionId === NULL_VERSION);
+	if (deleted.length > 0) {
+		await bucket.delete(deleted.map((object) => object.Key));
+	}
+
+	return xmlResult('DeleteResult', {
+		Deleted: quiet ? undefined : nonEmpty(deleted.map(({ Key, VersionId }) => (VersionId ? { Key, VersionId } : { Key }))),
+		Error: nonEmpty(
+			objects
+				.filter((object) => !deleted.includes(object))
+				.map(({ Key, VersionId }) => ({ Key, VersionId, Code: 'NoSuchVersion', Message: 'The specified version does not exist.' }))
+		),
+	});
+}
@@ -0,0 +1,275 @@
+import { SignatureV4 } from '@smithy/signature-v4';
+import { Sha256 } from '@aws-crypto/sha256-js';
+import { HttpRequest } from '@smithy/protocol-http';
+import { XMLParser } from 'fast-xml-parser';
+import { handleBindingRequest } from './r2-binding';
+import { getBucketDescriptor } from './accounts';
+import { copyAcrossAccounts, isCrossAccountCopy } from './copy';
+import { operationName, recordBackendRequest } from './metrics';
+import { BackendError } from './errors';
+import { guardBackendRequest, isReplayable, RejectReason } from './bucket-guard';
+import { encodePath, escapeUri } from './addressing';
+
+export function toHex(buffer: ArrayBuffer): string {
+	return [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Types for ListObjectsV2 response structure
+export interface S3Object {
+	Key: string;
+	LastModified: string;
+	ETag: string;
+	Size: number;
+	StorageClass: string;
+	Owner?: {
+		ID: string;
+		DisplayName: string;
+	};
+}
+
+export interface CommonPrefix {
+	Prefix: string;
+}
+
+export interface ListObjectsV2Response {
+	Name: string;
+	Prefix?: string;
+	KeyCount: number;
+	MaxKeys: number;
+	IsTruncated: boolean;
+	Contents?: S3Object[];
+	CommonPrefixes?: CommonPrefix[];
+	ContinuationToken?: string;
+	NextContinuationToken?: string;
+	StartAfter?: string;
+	Delimiter?: string;
+}
+
+// Create a signed request to a physical bucket, at the endpoint and with the credentials of its account. The
+// path holds the decoded key, which is percent-encoded here. A streamed body is never read here, so it needs a
+// payloadHash (UNSIGNED-PAYLOAD or a client-supplied hash) for the signature.
+export async function createSignedR2Request(
+	method: string,
+	bucketName: string,
+	path: string,
+	env: Env,
+	queryParams?: URLSearchParams,
+	headers?: Headers,
+	body?: ArrayBuffer | ReadableStream,
+	payloadHash?: string
+): Promise<Request> {
+	const bucket = getBucketDescriptor(env, bucketName).s3;
+	if (!bucket) {
+		throw new Error(`Bucket ${bucketName} is served through a binding and has no S3 credentials`);
+	}
+	const targetUrl = new URL(`${bucket.endpoint}/${bucketName}${encodePath(path)}`);
+	// Repeated parameters are kept, and the URL is encoded exactly as it was signed, so opaque values such as
+	// version IDs reach R2 unchanged
+	const query: Record<string, string | string[]> = {};
+	if (queryParams) {
+		targetUrl.search = [...queryParams].map(([name, value]) => `${escapeUri(name)}=${escapeUri(value)}`).join('&');
+		for (const [name, value] of queryParams) {
+			const existing = query[name];
+			query[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+		}
+	}
+
+	const r2Headers = new Headers();
+
+	// Filter headers to exclude Cloudflare-specific ones that get modified during forwarding
+	if (headers) {
+		for (const [key, value] of headers.entries()) {
+			const lowerKey = key.toLowerCase();
+			// Skip headers that Cloudflare modifies or adds when forwarding
+			if (lowerKey.startsWith('cf-') || lowerKey === 'x-forwarded-for' || lowerKey === 'x-real-ip' || lowerKey === 'host') {
+				continue;
+			}
+			r2Headers.set(key, value);
+		}
+	}
+
+	r2Headers.set('host', targetUrl.host);
+
+	// Calculate body hash for the signature
+	let bodyHash = payloadHash;
+	if (!bodyHash) {
+		if (body instanceof ReadableStream) {
+			throw new Error('A streamed body needs a payload hash');
+		}
+		const hash = new Sha256();
+		hash.update(body || new Uint8Array());
+		bodyHash = toHex(await hash.digest());
+	}
+	r2Headers.set('x-amz-content-sha256', bodyHash);
+
+	const signer = new SignatureV4({
+		credentials: bucket.credentials,
+		service: 's3',
+		region: bucket.region,
+		sha256: Sha256,
+		// The path is already encoded, and S3 signs it as sent
+		uriEscapePath: false,
+	});
+
+	const signed = await signer.sign(
+		new HttpRequest({
+			method,
+			headers: Object.fromEntries(r2Headers.entries()),
+			hostname: targetUrl.hostname,
+			port: targetUrl.port ? Number(targetUrl.port) : undefined,
+			path: targetUrl.pathname,
+			query: queryParams ? query : undefined,
+			protocol: targetUrl.protocol,
+		})
+	);
+
+	return new Request(targetUrl.toString(), {
+		method: signed.method,
+		headers: signed.headers,
+		body,
+	});
+}
+
+// Send a request to a physical bucket: through its R2 binding when it has one, otherwise as a signed request
+// to R2's S3 API. Either way the response is what the S3 API returns, and a bucket that cannot be reached
+// throws a BackendError. Requests go through the bucket's guard, which limits concurrency and retries
+// throttled requests, and every attempt is recorded in the bucket's metrics, including those the guard fails
+// without sending.
+export async function sendR2Request(
+	method: string,
+	bucketName: string,
+	path: string,
+	env: Env,
+	queryParams?: URLSearchParams,
+	headers?: Headers,
+	body?: ArrayBuffer | ReadableStream,
+	payloadHash?: string
+): Promise<Response> {
+	// R2 only copies server-side between buckets of one account
+	if (method === 'PUT' && headers && isCrossAccountCopy(bucketName, queryParams, headers, env)) {
+		return copyAcrossAccounts(bucketName, path, headers, env);
+	}
+
+	// Bucket-level GETs are lists
+	const lane = method === 'GET' && path === '/' ? 'list' : 'object';
+
+	const operation = operationName(method, path, queryParams ?? new URLSearchParams(), headers ?? new Headers());
+	const bytesIn = body instanceof ArrayBuffer ? body.byteLength : Number(headers?.get('content-length') || 0);
+
+	// Attempts the guard fails without sending are recorded as 503s
+	const onRejected = (rejected: RejectReason) =>
+		recordBackendRequest(env, { bucket: bucketName, operation, status: 503, latencyMs: 0, bytesIn: 0, bytesOut: 0, rejected });
+
+	return guardBackendRequest(bucketName, lane, isReplayable(method, queryParams, body), env, onRejected, async () => {
+		const start = Date.now();
+		try {
+			const response = await sendToBucket(method, bucketName, path, env, queryParams, headers, body, payloadHash);
+			recordBackendRequest(env, {
+				bucket: bucketName,
+				operation,
+				status: response.status,
+				latencyMs: Date.now() - start,
+				bytesIn,
+				bytesOut: Number(response.headers.get('content-length') || 0),
+			});
+			return response;
+		} catch (error) {
+			recordBackendRequest(env, { bucket: bucketName, operation, status: 0, latencyMs: Date.now() - start, bytesIn, bytesOut: 0 });
+			throw error;
+		}
+	});
+}
+
+async function sendToBucket(
+	method: string,
+	bucketName: string,
+	path: string,
+	env: Env,
+	queryParams?: URLSearchParams,
+	headers?: Headers,
+	body?: ArrayBuffer | ReadableStream,
+	payloadHash?: string
+): Promise<Response> {
+	const { binding } = getBucketDescriptor(env, bucketName);
+	if (binding) {
+		return handleBindingRequest(
+			binding,
+			bucketName,
+			method,
+			path,
+			env,
+			queryParams ?? new URLSearchParams(),
+			headers ?? new Headers(),
+			body,
+			payloadHash
+		);
+	}
+	const request = await createSignedR2Request(method, bucketName, path, env, queryParams, headers, body, payloadHash);
+	try {
+		return await fetch(request);
+	} catch (error) {
+		// The bucket could not be reached at all
+		throw new BackendError(bucketName, 503, `${method} ${path} failed for bucket ${bucketName}: ${error}`);
+	}
+}
+
+// Send a bucket-level GET (a list operation) to a physical bucket and return the parsed XML document
+export async function queryBucket<T>(bucketName: string, params: URLSearchParams, operation: string, env: Env): Promise<T> {
+	const response = await sendR2Request('GET', bucketName, '/', env, params);
+
+	if (!response.ok) {
+		const errorBody = await response.text();
+		console.error(`${operation} Error Body:`, errorBody);
+		throw new BackendError(bucketName, response.status, `${operation} failed for bucket ${bucketName}: ${response.statusText}`);
+	}
+
+	const xmlText = await response.text();
+	const parser = new XMLParser({
+		ignoreAttributes: false,
+		parseAttributeValue: true,
+		// Keep tag values as strings so keys like `0123` or `1e5` are not turned into numbers
+		parseTagValue: false,
+	});
+
+	return parser.parse(xmlText) as T;
+}
+
+// List a single physical bucket with ListObjectsV2 and return the parsed result
+export async function listBucket(bucketName: string, params: URLSearchParams, env: Env): Promise<ListObjectsV2Response> {
+	const bucketParams = new URLSearchParams(params);
+	bucketParams.set('list-type', '2');
+
+	const result = (await queryBucket<{ ListBucketResult: ListObjectsV2Response }>(bucketName, bucketParams, 'ListObjectsV2', env))
+		.ListBucketResult;
+	result.IsTruncated = String(result.IsTruncated) === 'true';
+	result.KeyCount = Number(result.KeyCount);
+	result.MaxKeys = Number(result.MaxKeys);
+	for (const obj of asArray(result.Contents)) {
+		obj.Size = Number(obj.Size);
+	}
+
+	return result;
+}
+
+// XML parsing yields a single object instead of an array when there is exactly one entry
+export function asArray<T>(value: T | T[] | undefined): T[] {
+	if (value === undefined) return [];
+	return Array.isArray(value) ? value : [value];
+}
+
+// Compare keys in UTF-8 byte order, the order S3 lists them in. JavaScript compares UTF-16 code units, which
+// agrees except that surrogate pairs (code points above U+FFFF) must sort after U+E000-U+FFFF.
+export function compareKeys(a: string, b: string): number {
+	const length = Math.min(a.length, b.length);
+	for (let i = 0; i < length; i++) {
+		let x = a.charCodeAt(i);
+		let y = b.charCodeAt(i);
+		if (x === y) continue;
+		if (x >= 0xd800 && y >= 0xd800) {
+			x = x >= 0xe000 ? x - 0x800 : x + 0x2000;
+			y = y >= 0xe000 ? y - 0x800 : y + 0x2000;
+		}
+		return x - y;
+	}
+	return a.length - b.length;
+}
@@ -0,0 +1,77 @@
+import { getVirtualBuckets, VirtualBucket } from './placement';
+import { getBucketSources, mergeListings, SourceCursorState } from './list';
+import { groupByShard, IndexEntry } from './listing-index';
+
+// Pages of 1000 keys reconciled per virtual bucket on each cron run. Every page lists each bucket once and
+// calls every shard once.
+const RECONCILE_PAGES_PER_RUN = 5;
+
+// Progress through a virtual bucket's keyspace, stored in the RESHARD_STATE KV namespace
+interface ReconcileState {
+	// Where each bucket's listing resumes
+	cursors: Record<string, SourceCursorState>;
+	// The last key reconciled
+	after: string;
+}
+
+// Walk the buckets of a virtual bucket in key order and repair its listing index from what they hold,
+// resuming from the cursor saved in RESHARD_STATE. Writes that bypassed the proxy, or index updates that
+// failed, are picked up once per cycle through the keyspace.
+async function reconcileVirtualBucket(virtualBucket: VirtualBucket, env: Env): Promise<void> {
+	const stateKey = `reconcile:${virtualBucket.name}:${virtualBucket.indexShards}`;
+	const state: ReconcileState = (await env.RESHARD_STATE.get<ReconcileState>(stateKey, 'json')) ?? { cursors: {}, after: '' };
+	const sources = getBucketSources(virtualBucket, env);
+	let updated = 0;
+	let removed = 0;
+
+	for (let i = 0; i < RECONCILE_PAGES_PER_RUN; i++) {
+		// Buckets that joined the pool since the last run resume where the others are
+		const cursors = new Map(sources.map(({ name }) => [name, name in state.cursors ? state.cursors[name] : state.after]));
+		const listedAt = Date.now();
+		const page = await mergeListings(sources, { prefix: '', delimiter: null, maxKeys: 1000, fetchOwner: false, cursors });
+
+		const entries: IndexEntry[] = page.entries.map(({ key, object }) => ({
+			key,
+			size: object!.Size,
+			etag: object!.ETag,
+			lastModified: object!.LastModified,
+		}));
+		// The last page covers the rest of the keyspace
+		const upTo = page.isTruncated ? entries[entries.length - 1].key : null;
+
+		// Every shard is called, since any of them may hold keys in the range that are gone
+		const groups = await groupByShard(virtualBucket, entries, (entry) => entry.key, env);
+		const results = await Promise.all(
+			[...groups].map(([shard, shardEntries]) => shard.stub.reconcile(state.after, upTo, shardEntries, listedAt))
+		);
+		for (const result of results) {
+			updated += result.updated;
+			removed += result.removed;
+		}
+
+		if (upTo === null) {
+			state.cursors = {};
+			state.after = '';
+			await env.RESHARD_STATE.put(stateKey, JSON.stringify(state));
+			break;
+		}
+		state.cursors = Object.fromEntries(page.cursors);
+		state.after = upTo;
+		await env.RESHARD_STATE.put(stateKey, JSON.stringify(state));
+	}
+
+	console.log(
+		`Reconciled the listing index of ${virtualBucket.name}: ${updated} updated, ${removed} removed, resuming after "${state.after}"`
+	);
+}
+
+// Reconcile the listing index of every virtual bucket that has one. Runs from the cron trigger.
+export async function reconcileIndexes(env: Env): Promise<void> {
+	for (const virtualBucket of getVirtualBuckets(env)) {
+		if (virtualBucket.indexShards === 0) {
+			continue;
+		}
+
+		await reconcileVirtualBucket(virtualBucket, env);
+	}
+}
@@ -0,0 +1,217 @@
+import { sendR2Request, toHex } from './r2';
+import { getVirtualBucket, placePreviousKey, placeReplicas, VirtualBucket } from './placement';
+import { serviceUnavailable } from './errors';
+import { encodePath } from './addressing';
+
+// Replicas that missed a write are stored in the RESHARD_STATE KV namespace under this prefix until the cron
+// trigger repairs them
+const REPAIR_PREFIX = 'replica-repair:';
+// Repairs attempted per cron run
+const REPAIRS_PER_RUN = 50;
+
+type ReplicaOperation = 'put' | 'delete';
+
+// Replicas of a key that missed a write. The repair job brings them in line with whatever the primary has by
+// then, so a later write that did reach them makes the repair harmless rather than stale.
+interface PendingRepair {
+	key: string;
+	buckets: string[];
+}
+
+// A write succeeds once a majority of the replicas have it
+function majority(replicas: number): number {
+	return Math.floor(replicas / 2) + 1;
+}
+
+function shuffle<T>(items: T[]): T[] {
+	const shuffled = [...items];
+	for (let i = shuffled.length - 1; i > 0; i--) {
+		const j = Math.floor(Math.random() * (i + 1));
+		[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+	}
+	return shuffled;
+}
+
+// Whether a replica answered a read for itself. A 404 may be a replica that has not been repaired yet, and a
+// 5xx a throttled bucket, so both move on to the next replica.
+function isReplicaAnswer(resp: Response): boolean {
+	return resp.status !== 404 && resp.status < 500;
+}
+
+// Whether a key is written to more than one bucket
+export async function isReplicated(virtualBucket: VirtualBucket, key: string): Promise<boolean> {
+	return (await placeReplicas(virtualBucket, key)).length > 1;
+}
+
+// Serve a GET or HEAD of a replicated key from its replicas in random order, so a hot key's reads are spread
+// over all of them. A replica that fails or does not have the key falls back to the next one. While re-sharding,
+// a key that none of them has yet is read from its bucket in the previous pool.
+export async function readReplicated(req: Request, virtualBucket: VirtualBucket, key: string, url: URL, env: Env): Promise<Response> {
+	const replicas = await placeReplicas(virtualBucket, key);
+	let lastResponse: Response | undefined;
+	let lastError: unknown;
+	let missing = 0;
+	for (const bucket of shuffle(replicas)) {
+		try {
+			const resp = await sendR2Request(req.method, bucket, `/${key}`, env, url.searchParams, req.headers);
+			if (isReplicaAnswer(resp)) {
+				return resp;
+			}
+			await lastResponse?.body?.cancel();
+			lastResponse = resp;
+			if (resp.status === 404) missing++;
+		} catch (error) {
+			lastError = error;
+		}
+	}
+
+	const previousBucket = await placePreviousKey(virtualBucket, key);
+	if (missing === replicas.length && previousBucket && !replicas.includes(previousBucket)) {
+		await lastResponse?.body?.cancel();
+		return sendR2Request(req.method, previousBucket, `/${key}`, env, url.searchParams, req.headers);
+	}
+
+	if (lastResponse) {
+		return lastResponse;
+	}
+	throw lastError;
+}
+
+// Copy a key from its primary to another replica, or delete it there
+async function applyToReplica(operation: ReplicaOperation, primary: string, bucket: string, key: string, env: Env): Promise<boolean> {
+	try {
+		if (operation === 'delete') {
+			const resp = await sendR2Request('DELETE', bucket, `/${key}`, env);
+			await resp.body?.cancel();
+			return resp.ok || resp.status === 404;
+		}
+
+		const headers = new Headers({ 'x-amz-copy-source': `/${primary}/${encodePath(key)}` });
+		const resp = await sendR2Request('PUT', bucket, `/${key}`, env, undefined, headers);
+		await resp.body?.cancel();
+		// A primary without the key was deleted since, and the delete replicates itself
+		return resp.ok || resp.status === 404;
+	} catch (error) {
+		console.error(`Failed to ${operation} ${key} in replica ${bucket}:`, error);
+		return false;
+	}
+}
+
+// KV keys are limited to 512 bytes, so repairs are stored under a hash of the object key
+async function getRepairKey(virtualBucket: VirtualBucket, key: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+	return `${REPAIR_PREFIX}${virtualBucket.name}:${toHex(digest)}`;
+}
+
+// Queue replicas that missed a write for the repair job, together with any still queued for the key. The
+// write has reached the primary, so failing to queue it is logged rather than failing the request.
+async function queueRepair(virtualBucket: VirtualBucket, key: string, buckets: string[], env: Env): Promise<void> {
+	try {
+		const repairKey = await getRepairKey(virtualBucket, key);
+		const pending = await env.RESHARD_STATE.get<PendingRepair>(repairKey, 'json');
+		const repair: PendingRepair = { key, buckets: [...new Set([...(pending?.buckets ?? []), ...buckets])] };
+		await env.RESHARD_STATE.put(repairKey, JSON.stringify(repair));
+	} catch (error) {
+		console.error(`Failed to queue the repair of ${virtualBucket.name}/${key} for ${buckets.join(', ')}:`, error);
+	}
+}
+
+// What a replica must do to match the primary: copy the key when the primary has it, delete it when it does
+// not. Null when the primary cannot tell right now.
+async function getPrimaryOperation(primary: string, key: string, env: Env): Promise<ReplicaOperation | null> {
+	try {
+		const resp = await sendR2Request('HEAD', primary, `/${key}`, env);
+		await resp.body?.cancel();
+		if (resp.ok) return 'put';
+		if (resp.status === 404) return 'delete';
+	} catch (error) {
+		console.error(`Failed to check ${key} in primary ${primary}:`, error);
+	}
+	return null;
+}
+
+// Bring the other replicas of a key in line with a write that its primary has already accepted, by copying
+// the object from the primary or deleting it. This is not a quorum write: the primary decides the outcome and
+// the others follow it, so a failed copy still counts as a success while a majority has the write. Failed
+// replicas are queued for the repair job. Returns whether a majority of replicas, the primary included, has it.
+export async function replicateToReplicas(
+	virtualBucket: VirtualBucket,
+	key: string,
+	operation: ReplicaOperation,
+	env: Env
+): Promise<boolean> {
+	const [primary, ...others] = await placeReplicas(virtualBucket, key);
+	if (others.length === 0) {
+		return true;
+	}
+
+	const results = await Promise.all(others.map((bucket) => applyToReplica(operation, primary, bucket, key, env)));
+	const failed = others.filter((_, i) => !results[i]);
+
+	const succeeded = 1 + others.length - failed.length;
+	if (failed.length > 0) {
+		console.error(`Replicated ${operation} of ${virtualBucket.name}/${key} reached ${succeeded} of ${others.length + 1} replicas`);
+		await queueRepair(virtualBucket, key, failed, env);
+	}
+	return succeeded >= majority(others.length + 1);
+}
+
+// Replicate a successful object write that went to the key's primary: PutObject, CopyObject and
+// CompleteMultipartUpload copy the new object to the other replicas, DeleteObject removes it from them.
+// Without a majority the client gets ServiceUnavailable and retries, while the repair job finishes the write.
+// A write the primary failed is returned as it is, without copies or a retry here.
+export async function replicateWrite(req: Request, url: URL, virtualBucket: VirtualBucket, key: string, resp: Response, env: Env) {
+	const params = url.searchParams;
+	let operation: ReplicaOperation;
+	if ((req.method === 'PUT' && !params.has('uploadId')) || (req.method === 'POST' && params.has('uploadId'))) {
+		operation = 'put';
+	} else if (req.method === 'DELETE' && !params.has('uploadId') && !params.has('versionId')) {
+		operation = 'delete';
+	} else {
+		return resp;
+	}
+	if (!resp.ok || !(await isReplicated(virtualBucket, key))) {
+		return resp;
+	}
+
+	if (await replicateToReplicas(virtualBucket, key, operation, env)) {
+		return resp;
+	}
+	await resp.body?.cancel();
+	return serviceUnavailable();
+}
+
+// Retry replica writes that failed. Runs from the cron trigger.
+export async function repairReplicas(env: Env): Promise<void> {
+	const pending = await env.RESHARD_STATE.list({ prefix: REPAIR_PREFIX, limit: REPAIRS_PER_RUN });
+	let repaired = 0;
+
+	for (const { name } of pending.keys) {
+		const virtualBucket = getVirtualBucket(env, name.slice(REPAIR_PREFIX.length, name.indexOf(':', REPAIR_PREFIX.length)));
+		const repair = await env.RESHARD_STATE.get<PendingRepair>(name, 'json');
+		if (!virtualBucket || !repair) {
+			await env.RESHARD_STATE.delete(name);
+			continue;
+		}
+		const { key } = repair;
+
+		// Only buckets that are still replicas of the key need the write
+		const [primary, ...others] = await placeReplicas(virtualBucket, key);
+		const buckets = repair.buckets.filter((bucket) => others.includes(bucket));
+		const operation = await getPrimaryOperation(primary, key, env);
+		if (!operation) continue;
+
+		const results = await Promise.all(buckets.map((bucket) => applyToReplica(operation, primary, bucket, key, env)));
+		const failed = buckets.filter((_, i) => !results[i]);
+		repaired += buckets.length - failed.length;
+		if (failed.length > 0) {
+			await env.RESHARD_STATE.put(name, JSON.stringify({ key, buckets: failed }));
+		} else {
+			await env.RESHARD_STATE.delete(name);
+		}
+	}
+
+	if (pending.keys.length > 0) {
+		console.log(`Repaired ${repaired} replicas of ${pending.keys.length} keys`);
+	}
+}
@@ -0,0 +1,183 @@
+import { sendR2Request, listBucket, asArray, toHex } from './r2';
+import { getVirtualBuckets, placeKey, placePreviousKey, placeReplicas, PoolMember, VirtualBucket } from './placement';
+import { replicateToReplicas } from './replication';
+import { serviceUnavailable } from './errors';
+
+// Each cron run stays well below the Workers subrequest limit. A moved object costs three subrequests
+// (HEAD, copy, delete) and every listed page costs one. A page is always finished so the cursor never
+// skips a key, which means a run can overshoot the budget by up to one page.
+const MIGRATION_SUBREQUEST_BUDGET = 500;
+const MIGRATION_PAGE_SIZE = 100;
+
+// Progress through one bucket of the previous pool, stored in the RESHARD_STATE KV namespace
+interface MigrationState {
+	startAfter: string;
+	done: boolean;
+	moved: number;
+}
+
+// Whether a successful request left a full copy of the key at its new placement (or removed it), so the
+// copy at the previous placement is stale. Deleting a single version (DELETE ?versionId) leaves the others.
+function replacesObject(method: string, params: URLSearchParams): boolean {
+	const uploadId = params.has('uploadId');
+	if (method === 'PUT') {
+		return !uploadId;
+	}
+	if (method === 'DELETE') {
+		return !uploadId && !params.has('versionId');
+	}
+	// CompleteMultipartUpload
+	return method === 'POST' && uploadId;
+}
+
+// Whether a 404 from the new placement should be retried against the previous one. Besides reads, this
+// lets multipart uploads that were started before the pool changed run to completion in their old bucket.
+function canFallBack(method: string, params: URLSearchParams): boolean {
+	return method === 'GET' || method === 'HEAD' || params.has('uploadId');
+}
+
+// Forward an object request to the key's bucket, handling keys that have not been migrated yet
+export async function forwardWithReshard(
+	req: Request,
+	virtualBucket: VirtualBucket,
+	key: string,
+	url: URL,
+	env: Env,
+	body?: ArrayBuffer | ReadableStream,
+	payloadHash?: string
+): Promise<Response> {
+	let bucket = await placeKey(virtualBucket, key);
+	const previousBucket = (await placePreviousKey(virtualBucket, key)) ?? bucket;
+
+	// A streamed body can only be sent once, so find out up front which bucket holds the multipart upload
+	if (previousBucket !== bucket && body instanceof ReadableStream && canFallBack(req.method, url.searchParams)) {
+		const probeParams = new URLSearchParams({ uploadId: url.searchParams.get('uploadId')!, 'max-parts': '1' });
+		const probe = await sendR2Request('GET', bucket, `/${key}`, env, probeParams);
+		await probe.body?.cancel();
+		if (probe.status === 404) {
+			bucket = previousBucket;
+		} else if (probe.status === 501) {
+			// Buckets served by an R2 binding cannot list parts, so buffer the part and fall back on a 404 instead
+			body = await new Response(body).arrayBuffer();
+		}
+	}
+
+	const resp = await sendR2Request(req.method, bucket, `/${key}`, env, url.searchParams, req.headers, body, payloadHash);
+
+	if (previousBucket === bucket) {
+		return resp;
+	}
+
+	if (resp.status === 404 && canFallBack(req.method, url.searchParams) && !(body instanceof ReadableStream)) {
+		await resp.body?.cancel();
+		return await sendR2Request(req.method, previousBucket, `/${key}`, env, url.searchParams, req.headers, body, payloadHash);
+	}
+
+	if (resp.ok && replacesObject(req.method, url.searchParams)) {
+		const cleanup = await sendR2Request('DELETE', previousBucket, `/${key}`, env);
+		if (!cleanup.ok && cleanup.status !== 404) {
+			console.error(`Failed to remove stale copy of ${key} from ${previousBucket}:`, cleanup.status, await cleanup.text());
+			// A delete that leaves the old copy behind would let GET fall back to it, so make the client retry
+			if (req.method === 'DELETE') {
+				return serviceUnavailable();
+			}
+		}
+	}
+
+	return resp;
+}
+
+// Identify a re-sharding run by its pools and placement rules, so changing them again starts a fresh walk
+async function poolFingerprint(virtualBucket: VirtualBucket): Promise<string> {
+	const { previousPool, previousPlacement, pool, placement } = virtualBucket;
+	const data = new TextEncoder().encode(JSON.stringify({ previousPool, pool, previousPlacement, placement }));
+	return toHex(await crypto.subtle.digest('SHA-256', data)).slice(0, 16);
+}
+
+// Copy an object to its new bucket and delete it from the old one. If the new bucket already has the key,
+// it was written after the pool changed and is newer, so the old copy is only deleted.
+async function moveObject(key: string, etag: string, from: string, to: string, env: Env): Promise<void> {
+	const head = await sendR2Request('HEAD', to, `/${key}`, env);
+	if (head.status === 404) {
+		const copyHeaders = new Headers();
+		copyHeaders.set('x-amz-copy-source', `/${from}/${encodeURIComponent(key)}`);
+		// Only copy the version we listed, in case a client overwrote it since
+		copyHeaders.set('x-amz-copy-source-if-match', etag);
+
+		const copy = await sendR2Request('PUT', to, `/${key}`, env, undefined, copyHeaders);
+		if (!copy.ok) {
+			throw new Error(`Failed to copy ${key} from ${from} to ${to}: ${copy.status} ${await copy.text()}`);
+		}
+	} else if (!head.ok) {
+		throw new Error(`Failed to check ${key} in ${to}: ${head.status}`);
+	}
+
+	const deleteHeaders = new Headers();
+	deleteHeaders.set('if-match', etag);
+	const del = await sendR2Request('DELETE', from, `/${key}`, env, undefined, deleteHeaders);
+	if (!del.ok && del.status !== 404 && del.status !== 412) {
+		throw new Error(`Failed to delete ${key} from ${from}: ${del.status} ${await del.text()}`);
+	}
+}
+
+// Walk every bucket of a virtual bucket's previous pool and move objects that now hash elsewhere,
+// resuming from the cursor saved in RESHARD_STATE. Returns the remaining subrequest budget.
+async function migrateVirtualBucket(virtualBucket: VirtualBucket, previousPool: PoolMember[], budget: number, env: Env): Promise<number> {
+	const runId = await poolFingerprint(virtualBucket);
+
+	for (const { name: bucketName } of previousPool) {
+		const stateKey = `reshard:${virtualBucket.name}:${runId}:${bucketName}`;
+		const state: MigrationState = (await env.RESHARD_STATE.get<MigrationState>(stateKey, 'json')) ?? {
+			startAfter: '',
+			done: false,
+			moved: 0,
+		};
+
+		while (!state.done && budget > 0) {
+			const params = new URLSearchParams();
+			params.set('max-keys', String(MIGRATION_PAGE_SIZE));
+			if (state.startAfter) params.set('start-after', state.startAfter);
+
+			const page = await listBucket(bucketName, params, env);
+			budget--;
+
+			for (const obj of asArray(page.Contents)) {
+				// A replicated key is in place in any of its replicas. Moved to its primary, it is copied on from there.
+				const [target, ...replicas] = await placeReplicas(virtualBucket, obj.Key);
+				if (target !== bucketName && !replicas.includes(bucketName)) {
+					await moveObject(obj.Key, obj.ETag, bucketName, target, env);
+					if (replicas.length > 0) await replicateToReplicas(virtualBucket, obj.Key, 'put', env);
+					state.moved++;
+					budget -= 3 + replicas.length;
+				}
+				state.startAfter = obj.Key;
+			}
+
+			state.done = !page.IsTruncated;
+			await env.RESHARD_STATE.put(stateKey, JSON.stringify(state));
+		}
+
+		console.log(`Re-sharding ${virtualBucket.name}/${bucketName}: moved ${state.moved} objects so far, done: ${state.done}`);
+		if (budget <= 0) {
+			break;
+		}
+	}
+
+	return budget;
+}
+
+// Move misplaced objects of every virtual bucket that is being re-sharded. Runs from the cron trigger.
+export async function migrateMisplacedObjects(env: Env): Promise<void> {
+	let budget = MIGRATION_SUBREQUEST_BUDGET;
+
+	for (const virtualBucket of getVirtualBuckets(env)) {
+		if (!virtualBucket.previousPool) {
+			continue;
+		}
+
+		budget = await migrateVirtualBucket(virtualBucket, virtualBucket.previousPool, budget, env);
+		if (budget <= 0) {
+			break;
+		}
+	}
+}
@@ -0,0 +1,86 @@
+import { escapeUri } from './addressing';
+import { toHex } from './r2';
+
+export const SIGV4_ALGORITHM = 'AWS4-HMAC-SHA256';
+
+// The request as the client signed it, taken from what was received
+export interface CanonicalRequestParts {
+	method: string;
+	// The path exactly as received. S3 signs it already percent-encoded, without encoding it again.
+	path: string;
+	query: URLSearchParams;
+	// Query parameters that are not part of the signature (X-Amz-Signature of a presigned URL)
+	unsignedParams?: string[];
+	// Lowercase names in the order of the SignedHeaders list, with their received values
+	headers: [string, string][];
+	payloadHash: string;
+}
+
+export async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+	const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+export async function sha256Hex(data: string | ArrayBuffer | Uint8Array): Promise<string> {
+	return toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? new TextEncoder().encode(data) : data));
+}
+
+// Derive the SigV4 signing key for a credential scope
+export async function getSigningKey(secretAccessKey: string, dateStamp: string, region: string, service: string): Promise<ArrayBuffer> {
+	const dateKey = await hmac(new TextEncoder().encode(`AWS4${secretAccessKey}`), dateStamp);
+	const regionKey = await hmac(dateKey, region);
+	const serviceKey = await hmac(regionKey, service);
+	return hmac(serviceKey, 'aws4_request');
+}
+
+// Every query parameter, repeated ones included, encoded as SigV4 requires and sorted by name, then value
+function canonicalQueryString(query: URLSearchParams, unsignedParams: string[]): string {
+	return [...query]
+		.filter(([name]) => !unsignedParams.includes(name))
+		.map(([name, value]) => [escapeUri(name), escapeUri(value)])
+		.sort(([nameA, valueA], [nameB, valueB]) => (nameA < nameB ? -1 : nameA > nameB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0))
+		.map(([name, value]) => `${name}=${value}`)
+		.join('&');
+}
+
+export function buildCanonicalRequest(parts: CanonicalRequestParts): string {
+	return [
+		parts.method,
+		parts.path,
+		canonicalQueryString(parts.query, parts.unsignedParams ?? []),
+		// Header values are trimmed and their inner runs of spaces collapsed
+		...parts.headers.map(([name, value]) => `${name}:${value.trim().replace(/\s+/g, ' ')}`),
+		'',
+		parts.headers.map(([name]) => name).join(';'),
+		parts.payloadHash,
+	].join('\n');
+}
+
+export async function buildStringToSign(amzDate: string, scope: string, canonicalRequest: string): Promise<string> {
+	return [SIGV4_ALGORITHM, amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+}
+
+// Compare two hex signatures without leaking through timing how much of them matched
+export function signaturesEqual(expected: string, provided: string): boolean {
+	const a = new TextEncoder().encode(expected);
+	const b = new TextEncoder().encode(provided);
+	return a.byteLength === b.byteLength && crypto.subtle.timingSafeEqual(a, b);
+}
+
+// Parse an x-amz-date value such as 20250620T120000Z
+export function parseAmzDate(value: string): Date | null {
+	const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+	if (!match) {
+		return null;
+	}
+	const [, year, month, day, hour, minute, second] = match.map(Number);
+	return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
+
+// Format a date as an x-amz-date value
+export function formatAmzDate(date: Date): string {
+	return date
+		.toISOString()
+		.replace(/[-:]/g, '')
+		.replace(/\.\d{3}/, '');
+}
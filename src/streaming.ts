@@ -0,0 +1,205 @@
+import { parseAuthorizationHeader, ClientCredential } from './auth';
+import { toHex } from './r2';
+import { getSigningKey, hmac, signaturesEqual } from './sigv4';
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+const STREAMING_PAYLOAD = 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD';
+
+// Chunks are buffered one at a time while their signature is checked. Clients use 64 KiB chunks.
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+// SHA-256 of the empty string, part of every chunk's string to sign
+const EMPTY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+// The body of a request that is forwarded without being read into memory
+export interface StreamingBody {
+	// The request to forward, with headers adjusted for the decoded body
+	req: Request;
+	body: ReadableStream;
+	// The x-amz-content-sha256 to sign the backend request with. A client-supplied hash is passed through
+	// so R2 verifies the body against it.
+	payloadHash: string;
+}
+
+// Streaming payloads with trailing checksums (STREAMING-*-TRAILER) or ECDSA chunk signatures, which are not decoded
+export function isUnsupportedStreamingPayload(req: Request): boolean {
+	const payloadHash = req.headers.get('x-amz-content-sha256') ?? '';
+	return payloadHash.startsWith('STREAMING-') && payloadHash !== STREAMING_PAYLOAD;
+}
+
+// Whether a request's body can be streamed to R2. PUT bodies (PutObject, UploadPart) are streamed when
+// the client did not ask us to hash them: an unsigned payload, an aws-chunked payload whose chunks are
+// signed individually, or a hash R2 can check itself. Other bodies (e.g. CompleteMultipartUpload XML)
+// are small and buffered.
+export function canStreamBody(req: Request): boolean {
+	if (req.method !== 'PUT' || !req.body) {
+		return false;
+	}
+	// Presigned URLs always sign UNSIGNED-PAYLOAD
+	if (new URL(req.url).searchParams.has('X-Amz-Signature')) {
+		return true;
+	}
+	const payloadHash = req.headers.get('x-amz-content-sha256');
+	return payloadHash === UNSIGNED_PAYLOAD || payloadHash === STREAMING_PAYLOAD || /^[0-9a-f]{64}$/.test(payloadHash || '');
+}
+
+// Prepare a verified request's body for streaming. aws-chunked payloads are decoded on the fly, verifying
+// each chunk signature, and re-sent to R2 as a plain body of the decoded length.
+export async function openStreamingBody(req: Request, credential: ClientCredential): Promise<StreamingBody> {
+	const payloadHash = req.headers.get('x-amz-content-sha256') || UNSIGNED_PAYLOAD;
+	if (payloadHash !== STREAMING_PAYLOAD) {
+		return { req, body: req.body!, payloadHash };
+	}
+
+	const decodedLength = Number(req.headers.get('x-amz-decoded-content-length'));
+	if (!Number.isSafeInteger(decodedLength) || decodedLength < 0) {
+		throw new Error('aws-chunked payload without a valid x-amz-decoded-content-length');
+	}
+
+	const headers = new Headers(req.headers);
+	headers.delete('x-amz-decoded-content-length');
+	headers.set('content-length', String(decodedLength));
+	const encodings = (headers.get('content-encoding') || '')
+		.split(',')
+		.map((encoding) => encoding.trim())
+		.filter((encoding) => encoding && encoding !== 'aws-chunked');
+	if (encodings.length > 0) {
+		headers.set('content-encoding', encodings.join(','));
+	} else {
+		headers.delete('content-encoding');
+	}
+
+	const decoder = await createChunkDecoder(req, credential);
+	const fixedLength = new FixedLengthStream(decodedLength);
+	// Errors surface through the readable side, which aborts the upload to R2
+	req
+		.body!.pipeThrough(decoder)
+		.pipeTo(fixedLength.writable)
+		.catch((error) => console.error('aws-chunked upload failed:', error));
+
+	return {
+		req: new Request(req.url, { method: req.method, headers }),
+		body: fixedLength.readable,
+		payloadHash: UNSIGNED_PAYLOAD,
+	};
+}
+
+function indexOfCrlf(buffer: Uint8Array, from: number): number {
+	for (let i = from; i < buffer.length - 1; i++) {
+		if (buffer[i] === 0x0d && buffer[i + 1] === 0x0a) return i;
+	}
+	return -1;
+}
+
+// Copy the first n bytes out of a list of pieces, removing them from the list when consume is set. Received
+// bytes are kept as the pieces they arrived in, so each byte is only copied once however large a chunk is.
+function readBytes(pieces: Uint8Array[], n: number, consume: boolean): Uint8Array {
+	const result = new Uint8Array(n);
+	let offset = 0;
+	for (let i = 0; offset < n; ) {
+		const piece = pieces[i];
+		const count = Math.min(piece.length, n - offset);
+		result.set(piece.subarray(0, count), offset);
+		offset += count;
+		if (!consume) {
+			i++;
+		} else if (count === piece.length) {
+			pieces.shift();
+		} else {
+			pieces[0] = piece.subarray(count);
+		}
+	}
+	return result;
+}
+
+// Decode an aws-chunked body (`<hex size>;chunk-signature=<sig>\r\n<data>\r\n`, ending with a zero-size
+// chunk), verifying that each chunk's signature chains from the seed signature in the Authorization header.
+async function createChunkDecoder(req: Request, credential: ClientCredential): Promise<TransformStream<Uint8Array, Uint8Array>> {
+	const auth = parseAuthorizationHeader(req.headers.get('authorization')!);
+	const amzDate = req.headers.get('x-amz-date')!;
+	const scope = `${auth.dateStamp}/${auth.region}/${auth.service}/aws4_request`;
+	const signingKey = await getSigningKey(credential.secretAccessKey, auth.dateStamp, auth.region, auth.service);
+
+	let previousSignature = auth.signature;
+	const pieces: Uint8Array[] = [];
+	let buffered = 0;
+	// The header of the chunk whose data is still arriving
+	let pending: { size: number; signature: string } | null = null;
+	let finished = false;
+
+	return new TransformStream<Uint8Array, Uint8Array>({
+		async transform(input, controller) {
+			if (finished) {
+				throw new Error('Data after the final aws-chunked chunk');
+			}
+			pieces.push(input);
+			buffered += input.length;
+
+			// Emit every complete chunk in the buffer
+			while (true) {
+				if (!pending) {
+					const head = readBytes(pieces, Math.min(buffered, 4096 + 2), false);
+					const headerEnd = indexOfCrlf(head, 0);
+					if (headerEnd === -1) {
+						if (buffered > 4096) throw new Error('aws-chunked chunk header too long');
+						return;
+					}
+
+					const header = new TextDecoder().decode(head.subarray(0, headerEnd));
+					const match = header.match(/^([0-9a-fA-F]+);chunk-signature=([0-9a-f]{64})$/);
+					if (!match) {
+						throw new Error(`Invalid aws-chunked chunk header: ${header}`);
+					}
+
+					const size = parseInt(match[1], 16);
+					if (size > MAX_CHUNK_SIZE) {
+						throw new Error(`aws-chunked chunk too large: ${size} bytes`);
+					}
+					readBytes(pieces, headerEnd + 2, true);
+					buffered -= headerEnd + 2;
+					pending = { size, signature: match[2] };
+				}
+
+				const { size, signature } = pending;
+				if (buffered < size + 2) {
+					return;
+				}
+				const data = readBytes(pieces, size, true);
+				const terminator = readBytes(pieces, 2, true);
+				buffered -= size + 2;
+				pending = null;
+				if (terminator[0] !== 0x0d || terminator[1] !== 0x0a) {
+					throw new Error('aws-chunked chunk data is not followed by CRLF');
+				}
+
+				const stringToSign = [
+					'AWS4-HMAC-SHA256-PAYLOAD',
+					amzDate,
+					scope,
+					previousSignature,
+					EMPTY_SHA256,
+					toHex(await crypto.subtle.digest('SHA-256', data)),
+				].join('\n');
+				const expected = toHex(await hmac(signingKey, stringToSign));
+				if (!signaturesEqual(expected, signature)) {
+					throw new Error('aws-chunked chunk signature does not match');
+				}
+				previousSignature = expected;
+
+				if (size === 0) {
+					finished = true;
+					if (buffered > 0) {
+						throw new Error('Data after the final aws-chunked chunk');
+					}
+					return;
+				}
+				controller.enqueue(data);
+			}
+		},
+		flush() {
+			if (!finished) {
+				throw new Error('aws-chunked payload ended before the final chunk');
+			}
+		},
+	});
+}
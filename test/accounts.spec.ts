@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseAccounts } from '../src/accounts';
+
+const secrets = { accessKeyId: 'EU_KEY', secretAccessKey: 'EU_SECRET' };
+
+describe('Accounts', () => {
+	it('should resolve R2 accounts, jurisdictions and S3-compatible endpoints', () => {
+		const accounts = parseAccounts(
+			{
+				eu: { accountId: 'abc123', jurisdiction: 'eu', secrets },
+				minio: { endpoint: 'http://localhost:9000', region: 'us-east-1', secrets },
+			},
+			'def456'
+		);
+
+		expect(accounts.get('eu')).toEqual({
+			endpoint: 'https://abc123.eu.r2.cloudflarestorage.com',
+			region: 'auto',
+			jurisdiction: 'eu',
+			secrets,
+		});
+		expect(accounts.get('minio')).toMatchObject({ endpoint: 'http://localhost:9000', region: 'us-east-1', jurisdiction: null });
+		// The default account is the one of ACCOUNT_ID, R2_KEY and R2_SECRET
+		expect(accounts.get('default')).toEqual({
+			endpoint: 'https://def456.r2.cloudflarestorage.com',
+			region: 'auto',
+			jurisdiction: null,
+			secrets: { accessKeyId: 'R2_KEY', secretAccessKey: 'R2_SECRET' },
+		});
+	});
+
+	it('should only add the default account when ACCOUNT_ID is set', () => {
+		expect(parseAccounts(undefined, undefined).has('default')).toBe(false);
+		expect(parseAccounts({ default: { accountId: 'abc123', secrets } }, undefined).get('default')).toMatchObject({
+			endpoint: 'https://abc123.r2.cloudflarestorage.com',
+		});
+	});
+
+	it('should reject invalid accounts', () => {
+		expect(() => parseAccounts([], 'abc')).toThrow();
+		expect(() => parseAccounts({ eu: { accountId: 'abc' } }, 'abc')).toThrow();
+		expect(() => parseAccounts({ eu: { secrets } }, 'abc')).toThrow();
+		expect(() => parseAccounts({ eu: { accountId: 'abc', endpoint: 'http://localhost:9000', secrets } }, 'abc')).toThrow();
+		expect(() => parseAccounts({ eu: { accountId: 'abc', jurisdiction: 'e.u', secrets } }, 'abc')).toThrow();
+		expect(() => parseAccounts({ minio: { endpoint: 'http://localhost:9000/prefix', secrets } }, 'abc')).toThrow();
+		expect(() => parseAccounts({ minio: { endpoint: 'ftp://localhost', secrets } }, 'abc')).toThrow();
+	});
+});
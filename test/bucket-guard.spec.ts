@@ -0,0 +1,83 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { BucketGuard, guardBackendRequest, isReplayable, RejectReason } from '../src/bucket-guard';
+
+// Each test uses its own guard, since the open circuits a guard reports are remembered by the worker between tests
+function getGuard(name: string) {
+	return env.BUCKET_GUARD.get(env.BUCKET_GUARD.idFromName(name));
+}
+
+describe('Bucket guard', () => {
+	it('should keep lists to their share of the slots without holding up object requests', async () => {
+		const guard = getGuard('guard-lanes');
+		const lists = await Promise.all(Array.from({ length: 8 }, () => guard.acquire('list')));
+		for (const slot of lists) {
+			expect('lease' in slot).toBe(true);
+		}
+
+		// The ninth list waits for a slot, but object requests are still granted
+		let granted = false;
+		const queued = guard.acquire('list').then((slot) => {
+			granted = true;
+			return slot;
+		});
+		expect('lease' in (await guard.acquire('object'))).toBe(true);
+		expect(granted).toBe(false);
+
+		await guard.release((lists[0] as { lease: string }).lease, true);
+		expect('lease' in (await queued)).toBe(true);
+	});
+
+	it('should open the circuit after repeated failures and close it after a successful probe', async () => {
+		const guard = getGuard('guard-circuit');
+		for (let i = 0; i < 5; i++) {
+			const slot = await guard.acquire('object');
+			await guard.release((slot as { lease: string }).lease, false);
+		}
+		expect(await guard.acquire('object')).toMatchObject({ rejected: 'open' });
+
+		// Once the circuit has been open long enough, one probe is let through at a time
+		await runInDurableObject(guard, (instance: BucketGuard) => {
+			(instance as unknown as { openUntil: number }).openUntil = 0;
+		});
+		const probe = await guard.acquire('object');
+		expect('lease' in probe).toBe(true);
+		expect(await guard.acquire('object')).toMatchObject({ rejected: 'open' });
+
+		await guard.release((probe as { lease: string }).lease, true);
+		expect('lease' in (await guard.acquire('object'))).toBe(true);
+	});
+
+	it('should remember an open circuit in the isolate and report rejected requests', async () => {
+		const guard = getGuard('guard-remembered');
+		for (let i = 0; i < 5; i++) {
+			const slot = await guard.acquire('object');
+			await guard.release((slot as { lease: string }).lease, false);
+		}
+
+		const rejections: RejectReason[] = [];
+		let sent = 0;
+		const send = async () => {
+			sent++;
+			return new Response(null);
+		};
+		const attempt = () => guardBackendRequest('guard-remembered', 'object', true, env, (reason) => rejections.push(reason), send);
+		await expect(attempt()).rejects.toThrow('circuit breaker is open');
+
+		// Until the circuit's open period ends, the isolate fails requests without asking the guard
+		await runInDurableObject(guard, (instance: BucketGuard) => {
+			Object.assign(instance, { failures: 0, openUntil: 0 });
+		});
+		await expect(attempt()).rejects.toThrow('circuit breaker is open');
+		expect(rejections).toEqual(['open', 'open']);
+		expect(sent).toBe(0);
+	});
+
+	it('should only replay requests whose body can be sent again', () => {
+		expect(isReplayable('GET', undefined)).toBe(true);
+		expect(isReplayable('PUT', undefined, new ArrayBuffer(4))).toBe(true);
+		expect(isReplayable('PUT', undefined, new ReadableStream())).toBe(false);
+		expect(isReplayable('POST', new URLSearchParams('delete'))).toBe(true);
+		expect(isReplayable('POST', new URLSearchParams('uploads'))).toBe(false);
+	});
+});
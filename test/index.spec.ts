@@ -1,7 +1,108 @@
-import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { env, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
 import { describe, it, expect, beforeAll } from 'vitest';
 import { S3Client, PutObjectCommand, GetObjectCommand, ListObjectsV2Command, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { SignatureV4 } from '@smithy/signature-v4';
+import { Sha256 } from '@aws-crypto/sha256-js';
+import { HttpRequest } from '@smithy/protocol-http';
 import worker from '../src/index';
+import { getSigningKey } from '../src/sigv4';
+import { createSignedR2Request, compareKeys } from '../src/r2';
+import { parseBucketPool, pickBucket } from '../src/placement';
+import { reconcileIndexes } from '../src/reconcile';
+import { repairReplicas } from '../src/replication';
+import { migrateMisplacedObjects } from '../src/reshard';
+
+interface SendOptions {
+	body?: string;
+	headers?: Record<string, string>;
+	credentials?: { accessKeyId: string; secretAccessKey: string };
+	env?: Env;
+	signingDate?: Date;
+	region?: string;
+	service?: string;
+	ctx?: ExecutionContext;
+}
+
+// Sign a request with the client credentials and send it straight to the worker, without a running dev server
+async function sendSigned(method: string, path: string, options: SendOptions = {}): Promise<Response> {
+	const { body, headers = {} } = options;
+	const url = new URL(path, 'http://localhost:8787');
+	const signer = new SignatureV4({
+		credentials: options.credentials ?? { accessKeyId: env.CLIENT_ACCESS_KEY, secretAccessKey: env.CLIENT_SECRET_KEY },
+		service: options.service ?? 's3',
+		region: options.region ?? 'auto',
+		sha256: Sha256,
+		// Like the S3 SDK, sign the path as it is sent
+		uriEscapePath: false,
+	});
+
+	// Repeated parameters are all signed
+	const query: Record<string, string | string[]> = {};
+	for (const [name, value] of url.searchParams) {
+		query[name] = name in query ? [query[name], value].flat() : value;
+	}
+
+	const signed = await signer.sign(
+		new HttpRequest({
+			method,
+			headers: { host: url.host, ...headers },
+			hostname: url.hostname,
+			port: Number(url.port),
+			path: url.pathname,
+			query,
+			body,
+			protocol: url.protocol,
+		}),
+		{ signingDate: options.signingDate }
+	);
+
+	return worker.fetch(
+		new Request(url, { method, headers: signed.headers, body }),
+		options.env ?? env,
+		options.ctx ?? createExecutionContext()
+	);
+}
+
+// Serve ListObjectsV2 for a physical bucket from an in-memory key list, paging like R2 does
+function fakeListObjectsV2(keys: string[]) {
+	const sorted = [...keys].sort(compareKeys);
+	return (opts: { path: string }) => {
+		const params = new URL(opts.path, 'http://r2').searchParams;
+		const prefix = params.get('prefix') || '';
+		const delimiter = params.get('delimiter');
+		const maxKeys = Number(params.get('max-keys') || '1000');
+		const after = params.get('continuation-token') ?? params.get('start-after') ?? '';
+
+		const entries: string[] = [];
+		let isTruncated = false;
+		for (const key of sorted) {
+			if (!key.startsWith(prefix) || compareKeys(key, after) <= 0) continue;
+			const index = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+			const entry = index === -1 ? key : key.slice(0, index + delimiter!.length);
+			// A continuation token that ends on a common prefix skips the rest of it
+			if (entry === entries[entries.length - 1] || (entry === params.get('continuation-token') && entry !== key)) continue;
+			if (entries.length === maxKeys) {
+				isTruncated = true;
+				break;
+			}
+			entries.push(entry);
+		}
+
+		return (
+			`<ListBucketResult><IsTruncated>${isTruncated}</IsTruncated>` +
+			(isTruncated ? `<NextContinuationToken>${entries[entries.length - 1]}</NextContinuationToken>` : '') +
+			entries
+				.map((entry) =>
+					sorted.includes(entry)
+						? `<Contents><Key>${entry}</Key><LastModified>2025-01-01T00:00:00.000Z</LastModified><ETag>"e"</ETag><Size>1</Size></Contents>`
+						: `<CommonPrefixes><Prefix>${entry}</Prefix></CommonPrefixes>`
+				)
+				.join('') +
+			'</ListBucketResult>'
+		);
+	};
+}
 
 // Mock S3 client that points to our worker
 let s3Client: S3Client;
@@ -246,14 +347,1676 @@ describe('R2 Multiplex Worker', () => {
 
 		// We need to sign this request with AWS Signature V4
 		// For now, let's test the worker's response to unsigned requests
-		const putResponse = await worker.fetch(putRequest, env);
+		const putResponse = await worker.fetch(putRequest, env, createExecutionContext());
 		console.log(`Direct PUT response status: ${putResponse?.status}`);
 
-		// We expect 401 for unsigned requests
-		expect(putResponse?.status).toBe(401);
+		// We expect AccessDenied for unsigned requests
+		expect(putResponse?.status).toBe(403);
 
 		const responseText = await putResponse!.text();
 		console.log(`Response: ${responseText}`);
-		expect(responseText).toBe('Unauthorized: Invalid signature');
+		expect(responseText).toContain('<Code>AccessDenied</Code>');
+	});
+
+	it('should return NoSuchBucket for unknown virtual buckets', async () => {
+		const response = await sendSigned('GET', '/no-such-bucket/some-key.txt');
+		expect(response.status).toBe(404);
+
+		const responseText = await response.text();
+		expect(responseText).toContain('<Code>NoSuchBucket</Code>');
+		expect(responseText).toContain('<BucketName>no-such-bucket</BucketName>');
+	});
+
+	it('should list the virtual buckets', async () => {
+		const response = await sendSigned('GET', '/');
+		expect(response.status).toBe(200);
+		expect(await response.text()).toContain('<Name>multiplex</Name>');
+	});
+
+	it('should fall back to the previous pool while re-sharding and move misplaced objects from the cron', async () => {
+		const reshardEnv = {
+			...env,
+			VIRTUAL_BUCKETS: { moving: { buckets: ['vvvv', 'wwww'], previousBuckets: ['vvvv'] } },
+		} as unknown as Env;
+		const origin = 'https://replaceme.r2.cloudflarestorage.com';
+		// A key the new pool places in the added bucket, so its previous copy is in vvvv
+		const pool = parseBucketPool(['vvvv', 'wwww']);
+		let key = 'moved-0.txt';
+		for (let i = 1; (await pickBucket(key, pool)) !== 'wwww'; i++) key = `moved-${i}.txt`;
+		// And one that stays where it is
+		let kept = 'kept-0.txt';
+		for (let i = 1; (await pickBucket(kept, pool)) !== 'vvvv'; i++) kept = `kept-${i}.txt`;
+
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			// Reads of keys that were not migrated yet fall back to the previous bucket
+			fetchMock
+				.get(origin)
+				.intercept({ method: 'GET', path: `/wwww/${key}` })
+				.reply(404, '<Error><Code>NoSuchKey</Code></Error>');
+			fetchMock
+				.get(origin)
+				.intercept({ method: 'GET', path: `/vvvv/${key}` })
+				.reply(200, 'old');
+			const read = await sendSigned('GET', `/moving/${key}`, { env: reshardEnv });
+			expect(read.status).toBe(200);
+			expect(await read.text()).toBe('old');
+
+			// Deletes also remove the stale copy, which reads would otherwise fall back to
+			fetchMock
+				.get(origin)
+				.intercept({ method: 'DELETE', path: `/wwww/${key}` })
+				.reply(204, '');
+			fetchMock
+				.get(origin)
+				.intercept({ method: 'DELETE', path: `/vvvv/${key}` })
+				.reply(204, '');
+			const del = await sendSigned('DELETE', `/moving/${key}`, { env: reshardEnv });
+			expect(del.status).toBe(204);
+			expect(fetchMock.pendingInterceptors()).toHaveLength(0);
+
+			// The cron copies the listed version of misplaced keys to their new bucket, then deletes it from the old one
+			const copyHeaders: Record<string, string>[] = [];
+			const deleteHeaders: Record<string, string>[] = [];
+			fetchMock
+				.get(origin)
+				.intercept({ method: 'GET', path: /^\/vvvv\/?\?/ })
+				.reply(200, fakeListObjectsV2([key, kept]));
+			fetchMock
+				.get(origin)
+				.intercept({ method: 'HEAD', path: `/wwww/${key}` })
+				.reply(404, '');
+			fetchMock
+				.get(origin)
+				.intercept({ method: 'PUT', path: `/wwww/${key}` })
+				.reply(200, (opts) => {
+					copyHeaders.push(opts.headers as Record<string, string>);
+					return '<CopyObjectResult><ETag>"e"</ETag></CopyObjectResult>';
+				});
+			fetchMock
+				.get(origin)
+				.intercept({ method: 'DELETE', path: `/vvvv/${key}` })
+				.reply(204, (opts) => {
+					deleteHeaders.push(opts.headers as Record<string, string>);
+					return '';
+				});
+			await migrateMisplacedObjects(reshardEnv);
+			expect(copyHeaders).toHaveLength(1);
+			expect(copyHeaders[0]['x-amz-copy-source']).toBe(`/vvvv/${key}`);
+			expect(copyHeaders[0]['x-amz-copy-source-if-match']).toBe('"e"');
+			expect(deleteHeaders).toHaveLength(1);
+			expect(deleteHeaders[0]['if-match']).toBe('"e"');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it("should deny requests outside the credential's policy", async () => {
+		const scopedEnv = {
+			...env,
+			VIRTUAL_BUCKETS: { multiplex: { buckets: ['aaaa', 'bbbb'] }, media: { buckets: ['cccc'] } },
+			CREDENTIALS: JSON.stringify({
+				'tenant-a': {
+					secretAccessKey: 'tenant-a-secret',
+					policy: { actions: ['GetObject', 'List*'], prefixes: ['tenant-a/'], buckets: ['multiplex'] },
+				},
+			}),
+		} as unknown as Env;
+		const options = { env: scopedEnv, credentials: { accessKeyId: 'tenant-a', secretAccessKey: 'tenant-a-secret' } };
+
+		const deniedRequests: [string, string][] = [
+			['PUT', '/multiplex/tenant-a/file.txt'], // action not allowed
+			['GET', '/multiplex/tenant-b/file.txt'], // prefix not allowed
+			['GET', '/media/tenant-a/file.txt'], // bucket not allowed
+			['GET', '/multiplex?list-type=2'], // listing outside the allowed prefixes
+		];
+
+		for (const [method, path] of deniedRequests) {
+			const response = await sendSigned(method, path, { ...options, body: method === 'PUT' ? 'content' : undefined });
+			expect(response.status).toBe(403);
+			expect(await response.text()).toContain('<Code>AccessDenied</Code>');
+		}
+
+		const listBuckets = await sendSigned('GET', '/', options);
+		const listBucketsText = await listBuckets.text();
+		expect(listBucketsText).toContain('<Name>multiplex</Name>');
+		expect(listBucketsText).not.toContain('<Name>media</Name>');
+
+		// A wrong secret is still rejected
+		const badSecret = await sendSigned('GET', '/multiplex/tenant-a/file.txt', {
+			env: scopedEnv,
+			credentials: { accessKeyId: 'tenant-a', secretAccessKey: 'wrong' },
+		});
+		expect(badSecret.status).toBe(403);
+		expect(await badSecret.text()).toContain('<Code>SignatureDoesNotMatch</Code>');
+
+		const unknownKey = await sendSigned('GET', '/multiplex/tenant-a/file.txt', {
+			env: scopedEnv,
+			credentials: { accessKeyId: 'tenant-z', secretAccessKey: 'tenant-a-secret' },
+		});
+		expect(unknownKey.status).toBe(403);
+		expect(await unknownKey.text()).toContain('<Code>InvalidAccessKeyId</Code>');
+	});
+
+	it('should verify presigned URLs', async () => {
+		// Presign for a bucket that does not exist, so a valid signature gets past auth to NoSuchBucket
+		// without needing a real R2 backend
+		const getUrl = await getSignedUrl(s3Client, new GetObjectCommand({ Bucket: 'presign-test', Key: 'file.txt' }), { expiresIn: 300 });
+		const getResponse = await worker.fetch(new Request(getUrl), env, createExecutionContext());
+		expect(getResponse.status).toBe(404);
+		expect(await getResponse.text()).toContain('<Code>NoSuchBucket</Code>');
+
+		const putUrl = await getSignedUrl(
+			s3Client,
+			new PutObjectCommand({ Bucket: 'presign-test', Key: 'file.txt', Metadata: { owner: 'browser' } }),
+			{ expiresIn: 300 }
+		);
+		const putResponse = await worker.fetch(
+			new Request(putUrl, { method: 'PUT', body: 'uploaded from a browser' }),
+			env,
+			createExecutionContext()
+		);
+		expect(putResponse.status).toBe(404);
+
+		// Tampered signature
+		const tampered = new URL(getUrl);
+		tampered.searchParams.set('X-Amz-Signature', '0'.repeat(64));
+		const tamperedResponse = await worker.fetch(new Request(tampered), env, createExecutionContext());
+		expect(tamperedResponse.status).toBe(403);
+		expect(await tamperedResponse.text()).toContain('<Code>SignatureDoesNotMatch</Code>');
+
+		// Tampered key
+		expect((await worker.fetch(new Request(getUrl.replace('file.txt', 'other.txt')), env, createExecutionContext())).status).toBe(403);
+
+		// Expired
+		const expiredUrl = await getSignedUrl(s3Client, new GetObjectCommand({ Bucket: 'presign-test', Key: 'file.txt' }), {
+			expiresIn: 60,
+			signingDate: new Date(Date.now() - 3600 * 1000),
+		});
+		const expiredResponse = await worker.fetch(new Request(expiredUrl), env, createExecutionContext());
+		expect(expiredResponse.status).toBe(403);
+		expect(await expiredResponse.text()).toContain('<Message>Request has expired</Message>');
+	});
+
+	it('should verify and decode aws-chunked uploads while streaming them to R2', async () => {
+		const content = 'Streamed through the proxy in small signed chunks';
+		const chunkSize = 8;
+
+		// Sign the headers with the streaming payload hash to get the seed signature
+		const url = new URL('http://localhost:8787/multiplex/chunked.txt');
+		const signer = new SignatureV4({
+			credentials: { accessKeyId: env.CLIENT_ACCESS_KEY, secretAccessKey: env.CLIENT_SECRET_KEY },
+			service: 's3',
+			region: 'auto',
+			sha256: Sha256,
+		});
+		const signed = await signer.sign(
+			new HttpRequest({
+				method: 'PUT',
+				headers: {
+					host: url.host,
+					'content-encoding': 'aws-chunked',
+					'x-amz-content-sha256': 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD',
+					'x-amz-decoded-content-length': String(content.length),
+				},
+				hostname: url.hostname,
+				port: Number(url.port),
+				path: url.pathname,
+				protocol: url.protocol,
+			})
+		);
+		const amzDate = signed.headers['x-amz-date'];
+		const seedSignature = signed.headers['authorization'].match(/Signature=([0-9a-f]{64})/)![1];
+
+		// Encode the body as signed chunks
+		const hex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, '0')).join('');
+		const signingKey = await crypto.subtle.importKey(
+			'raw',
+			await getSigningKey(env.CLIENT_SECRET_KEY, amzDate.slice(0, 8), 'auto', 's3'),
+			{ name: 'HMAC', hash: 'SHA-256' },
+			false,
+			['sign']
+		);
+		const encodeChunks = async (tamper: boolean) => {
+			let previousSignature = seedSignature;
+			let encoded = '';
+			const chunks = content.match(new RegExp(`.{1,${chunkSize}}`, 'g'))!;
+			for (const chunk of [...chunks, '']) {
+				const stringToSign = [
+					'AWS4-HMAC-SHA256-PAYLOAD',
+					amzDate,
+					`${amzDate.slice(0, 8)}/auto/s3/aws4_request`,
+					previousSignature,
+					hex(await crypto.subtle.digest('SHA-256', new Uint8Array())),
+					hex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(chunk))),
+				].join('\n');
+				previousSignature = hex(await crypto.subtle.sign('HMAC', signingKey, new TextEncoder().encode(stringToSign)));
+				encoded += `${chunk.length.toString(16)};chunk-signature=${previousSignature}\r\n${tamper ? chunk.toUpperCase() : chunk}\r\n`;
+			}
+			return encoded;
+		};
+
+		let forwardedBody: string | undefined;
+		let forwardedHeaders: Record<string, string> = {};
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			fetchMock
+				.get('https://replaceme.r2.cloudflarestorage.com')
+				.intercept({ method: 'PUT', path: /\/(aaaa|bbbb)\/chunked\.txt$/ })
+				.reply(200, (opts) => {
+					forwardedBody = String(opts.body);
+					forwardedHeaders = opts.headers as Record<string, string>;
+					return '';
+				});
+
+			const response = await worker.fetch(
+				new Request(url, { method: 'PUT', headers: signed.headers, body: await encodeChunks(false) }),
+				env,
+				createExecutionContext()
+			);
+			expect(response.status).toBe(200);
+			expect(forwardedBody).toBe(content);
+			expect(forwardedHeaders['x-amz-content-sha256']).toBe('UNSIGNED-PAYLOAD');
+			expect(forwardedHeaders['content-encoding']).toBeUndefined();
+
+			// Pieces that split chunk headers and data anywhere are decoded the same
+			fetchMock
+				.get('https://replaceme.r2.cloudflarestorage.com')
+				.intercept({ method: 'PUT', path: /\/(aaaa|bbbb)\/chunked\.txt$/ })
+				.reply(200, (opts) => {
+					forwardedBody = String(opts.body);
+					return '';
+				});
+			const encoded = new TextEncoder().encode(await encodeChunks(false));
+			const pieces = new ReadableStream<Uint8Array>({
+				start(controller) {
+					for (let i = 0; i < encoded.length; i += 5) controller.enqueue(encoded.slice(i, i + 5));
+					controller.close();
+				},
+			});
+			forwardedBody = undefined;
+			const split = await worker.fetch(
+				new Request(url, { method: 'PUT', headers: signed.headers, body: pieces }),
+				env,
+				createExecutionContext()
+			);
+			expect(split.status).toBe(200);
+			expect(forwardedBody).toBe(content);
+
+			// Bytes after the final chunk fail the upload
+			fetchMock
+				.get('https://replaceme.r2.cloudflarestorage.com')
+				.intercept({ method: 'PUT', path: /\/(aaaa|bbbb)\/chunked\.txt$/ })
+				.reply(200, '');
+			const trailing = await worker.fetch(
+				new Request(url, { method: 'PUT', headers: signed.headers, body: (await encodeChunks(false)) + 'extra' }),
+				env,
+				createExecutionContext()
+			);
+			expect(trailing.ok).toBe(false);
+
+			// Payloads with trailing checksums are not decoded
+			const trailer = await worker.fetch(
+				new Request(url, {
+					method: 'PUT',
+					headers: { ...signed.headers, 'x-amz-content-sha256': 'STREAMING-UNSIGNED-PAYLOAD-TRAILER' },
+					body: 'unused',
+				}),
+				env,
+				createExecutionContext()
+			);
+			expect(trailer.status).toBe(501);
+			expect(await trailer.text()).toContain('<Code>NotImplemented</Code>');
+
+			// A chunk that does not match its signature aborts the upload and fails the request
+			fetchMock
+				.get('https://replaceme.r2.cloudflarestorage.com')
+				.intercept({ method: 'PUT', path: /\/(aaaa|bbbb)\/chunked\.txt$/ })
+				.reply(200, '');
+			const rejected = await worker.fetch(
+				new Request(url, { method: 'PUT', headers: signed.headers, body: await encodeChunks(true) }),
+				env,
+				createExecutionContext()
+			);
+			expect(rejected.ok).toBe(false);
+			expect(await rejected.text()).toContain('<Error>');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should merge ListMultipartUploads across buckets and rewrite multipart responses', async () => {
+		const uploadsXml = (
+			bucket: string,
+			uploads: ([string, string] | [string, string, string])[],
+			truncated: boolean,
+			prefixes: string[] = []
+		) =>
+			`<ListMultipartUploadsResult><Bucket>${bucket}</Bucket><IsTruncated>${truncated}</IsTruncated>` +
+			uploads
+				.map(
+					([key, id, initiated = '2025-01-01T00:00:00.000Z']) =>
+						`<Upload><Key>${key}</Key><UploadId>${id}</UploadId><Initiated>${initiated}</Initiated></Upload>`
+				)
+				.join('') +
+			prefixes.map((prefix) => `<CommonPrefixes><Prefix>${prefix}</Prefix></CommonPrefixes>`).join('') +
+			'</ListMultipartUploadsResult>';
+
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+			r2.intercept({ method: 'GET', path: /^\/aaaa\/?\?.*uploads/ }).reply(
+				200,
+				uploadsXml(
+					'aaaa',
+					[
+						['b.bin', 'u2'],
+						['d.bin', 'u4'],
+						['e.bin', 'u5'],
+					],
+					true
+				)
+			);
+			r2.intercept({ method: 'GET', path: /^\/bbbb\/?\?.*uploads/ }).reply(
+				200,
+				uploadsXml(
+					'bbbb',
+					[
+						['a.bin', 'u1'],
+						['c.bin', 'u3'],
+					],
+					false
+				)
+			);
+
+			const response = await sendSigned('GET', '/multiplex?uploads&max-uploads=3');
+			expect(response.status).toBe(200);
+			const text = await response.text();
+			expect([...text.matchAll(/<Key>([^<]+)<\/Key>/g)].map((m) => m[1])).toEqual(['a.bin', 'b.bin', 'c.bin']);
+			expect(text).toContain('<Bucket>multiplex</Bucket>');
+			expect(text).toContain('<IsTruncated>true</IsTruncated>');
+			expect(text).toContain('<NextKeyMarker>c.bin</NextKeyMarker>');
+			expect(text).toContain('<NextUploadIdMarker>u3</NextUploadIdMarker>');
+
+			// The next page resumes after c.bin's u3 in the merged order, which is by key and then upload ID. The
+			// upload-id-marker is never sent on, since the other bucket has no such upload.
+			for (const bucket of ['aaaa', 'bbbb']) {
+				r2.intercept({ method: 'GET', path: new RegExp(`^/${bucket}/?\\?(?!.*upload-id-marker).*key-marker=c\\.bin`) }).reply(
+					200,
+					uploadsXml(
+						bucket,
+						bucket === 'aaaa'
+							? [
+									['d.bin', 'u4'],
+									['e.bin', 'u5'],
+							  ]
+							: [],
+						false
+					)
+				);
+			}
+			r2.intercept({ method: 'GET', path: /^\/aaaa\/?\?.*prefix=c\.bin/ }).reply(
+				200,
+				uploadsXml('aaaa', [['c.bin', 'u6', '2025-01-02T00:00:00.000Z']], false)
+			);
+			r2.intercept({ method: 'GET', path: /^\/bbbb\/?\?.*prefix=c\.bin/ }).reply(
+				200,
+				uploadsXml(
+					'bbbb',
+					[
+						['c.bin', 'u3'],
+						['c.bin', 'u7', '2024-12-31T00:00:00.000Z'],
+					],
+					false
+				)
+			);
+			const nextPage = await sendSigned('GET', '/multiplex?uploads&key-marker=c.bin&upload-id-marker=u3');
+			expect(nextPage.status).toBe(200);
+			const nextText = await nextPage.text();
+			expect([...nextText.matchAll(/<UploadId>([^<]+)<\/UploadId>/g)].map((m) => m[1])).toEqual(['u6', 'u7', 'u4', 'u5']);
+			expect(nextText).toContain('<IsTruncated>false</IsTruncated>');
+
+			// An upload-id-marker that was completed since still resumes after it rather than from the key's first upload
+			for (const bucket of ['aaaa', 'bbbb']) {
+				r2.intercept({ method: 'GET', path: new RegExp(`^/${bucket}/?\\?(?!.*upload-id-marker).*key-marker=c\\.bin`) }).reply(
+					200,
+					uploadsXml(bucket, [], false)
+				);
+			}
+			r2.intercept({ method: 'GET', path: /^\/aaaa\/?\?.*prefix=c\.bin/ }).reply(200, uploadsXml('aaaa', [['c.bin', 'u6']], false));
+			r2.intercept({ method: 'GET', path: /^\/bbbb\/?\?.*prefix=c\.bin/ }).reply(
+				200,
+				uploadsXml(
+					'bbbb',
+					[
+						['c.bin', 'u3'],
+						['c.bin', 'u7'],
+					],
+					false
+				)
+			);
+			const afterGone = await sendSigned('GET', '/multiplex?uploads&key-marker=c.bin&upload-id-marker=u65');
+			expect([...(await afterGone.text()).matchAll(/<UploadId>([^<]+)<\/UploadId>/g)].map((m) => m[1])).toEqual(['u7']);
+
+			// Common prefixes count toward max-uploads and are paged with the uploads
+			r2.intercept({ method: 'GET', path: /^\/aaaa\/?\?delimiter=%2F&max-uploads=2&uploads/ }).reply(
+				200,
+				uploadsXml('aaaa', [['a.bin', 'u1']], false, ['photos/'])
+			);
+			r2.intercept({ method: 'GET', path: /^\/bbbb\/?\?delimiter=%2F&max-uploads=2&uploads/ }).reply(
+				200,
+				uploadsXml('bbbb', [], false, ['photos/', 'videos/'])
+			);
+			const withPrefixes = await (await sendSigned('GET', '/multiplex?uploads&delimiter=/&max-uploads=2')).text();
+			expect([...withPrefixes.matchAll(/<(?:Key|Prefix)>([^<]+)<\/(?:Key|Prefix)>/g)].map((m) => m[1])).toEqual(['a.bin', 'photos/']);
+			expect(withPrefixes).toContain('<IsTruncated>true</IsTruncated>');
+			expect(withPrefixes).toContain('<NextKeyMarker>photos/</NextKeyMarker>');
+			expect(withPrefixes).not.toContain('<NextUploadIdMarker>');
+
+			// R2 rolls up the marker prefix again, which the next page skips
+			for (const bucket of ['aaaa', 'bbbb']) {
+				r2.intercept({ method: 'GET', path: new RegExp(`^/${bucket}/?\\?delimiter=%2F&key-marker=photos%2F`) }).reply(
+					200,
+					uploadsXml(bucket, [], false, bucket === 'aaaa' ? ['photos/'] : ['photos/', 'videos/'])
+				);
+			}
+			const nextPrefixes = await (await sendSigned('GET', '/multiplex?uploads&delimiter=/&max-uploads=2&key-marker=photos/')).text();
+			expect([...nextPrefixes.matchAll(/<Prefix>([^<]+)<\/Prefix>/g)].map((m) => m[1])).toEqual(['videos/']);
+			expect(nextPrefixes).toContain('<IsTruncated>false</IsTruncated>');
+
+			r2.intercept({ method: 'POST', path: /\/(aaaa|bbbb)\/video\.mp4\?uploads/ }).reply(
+				200,
+				'<InitiateMultipartUploadResult><Bucket>aaaa</Bucket><Key>video.mp4</Key><UploadId>u9</UploadId></InitiateMultipartUploadResult>',
+				{ headers: { 'content-type': 'application/xml' } }
+			);
+			const create = await sendSigned('POST', '/multiplex/video.mp4?uploads');
+			expect(create.status).toBe(200);
+			expect(await create.text()).toContain('<Bucket>multiplex</Bucket>');
+
+			// The Location of a completed upload keeps the addressing style of the request
+			const hostedEnv = { ...env, BASE_DOMAIN: 's3.example.com' } as Env;
+			const completed =
+				'<CompleteMultipartUploadResult><Location>https://replaceme.r2.cloudflarestorage.com/aaaa/video.mp4</Location>' +
+				'<Bucket>aaaa</Bucket><Key>video.mp4</Key><ETag>"e-2"</ETag></CompleteMultipartUploadResult>';
+			r2.intercept({ method: 'POST', path: /\/(aaaa|bbbb)\/video\.mp4\?uploadId=u9/ })
+				.reply(200, completed, { headers: { 'content-type': 'application/xml' } })
+				.times(2);
+			const completeBody = '<CompleteMultipartUpload></CompleteMultipartUpload>';
+			const hosted = await sendSigned('POST', 'http://multiplex.s3.example.com/video.mp4?uploadId=u9', {
+				env: hostedEnv,
+				body: completeBody,
+			});
+			expect(await hosted.text()).toContain('<Location>http://multiplex.s3.example.com/video.mp4</Location>');
+			const pathStyle = await sendSigned('POST', 'http://s3.example.com/multiplex/video.mp4?uploadId=u9', {
+				env: hostedEnv,
+				body: completeBody,
+			});
+			expect(await pathStyle.text()).toContain('<Location>http://s3.example.com/multiplex/video.mp4</Location>');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should merge ListObjects v1 across buckets with marker pagination', async () => {
+		const listXml = (keys: string[], prefixes: string[]) =>
+			`<ListBucketResult><IsTruncated>false</IsTruncated>` +
+			keys.map((key) => `<Contents><Key>${key}</Key><Size>1</Size><ETag>"e"</ETag></Contents>`).join('') +
+			prefixes.map((prefix) => `<CommonPrefixes><Prefix>${prefix}</Prefix></CommonPrefixes>`).join('') +
+			'</ListBucketResult>';
+
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+			r2.intercept({ method: 'GET', path: /^\/aaaa\/?\?.*start-after=b\.txt/ }).reply(200, listXml(['c.txt', 'e.txt'], ['dir/']));
+			r2.intercept({ method: 'GET', path: /^\/bbbb\/?\?.*start-after=b\.txt/ }).reply(200, listXml(['d.txt'], []));
+
+			// Common prefixes count toward max-keys, so the page ends with dir/ and e.txt is left for the next one
+			const response = await sendSigned('GET', '/multiplex?marker=b.txt&max-keys=3&delimiter=/');
+			expect(response.status).toBe(200);
+			const text = await response.text();
+			expect([...text.matchAll(/<Key>([^<]+)<\/Key>/g)].map((m) => m[1])).toEqual(['c.txt', 'd.txt']);
+			expect(text).toContain('<Name>multiplex</Name>');
+			expect(text).toContain('<Marker>b.txt</Marker>');
+			expect(text).toContain('<IsTruncated>true</IsTruncated>');
+			expect(text).toContain('<NextMarker>dir/</NextMarker>');
+			expect(text).toContain('<Prefix>dir/</Prefix>');
+			expect(text).not.toContain('KeyCount');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should merge ListObjectVersions across buckets and route version-specific requests', async () => {
+		const versionsXml = (entries: [string, string, string, boolean?][], prefixes: string[] = []) =>
+			'<ListVersionsResult><IsTruncated>false</IsTruncated>' +
+			entries
+				.map(([key, id, day, deleteMarker]) => {
+					const element = deleteMarker ? 'DeleteMarker' : 'Version';
+					return `<${element}><Key>${key}</Key><VersionId>${id}</VersionId><LastModified>2025-01-0${day}T00:00:00.000Z</LastModified></${element}>`;
+				})
+				.join('') +
+			prefixes.map((prefix) => `<CommonPrefixes><Prefix>${prefix}</Prefix></CommonPrefixes>`).join('') +
+			'</ListVersionsResult>';
+
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+			// b.txt has versions in both buckets, as it would while being migrated
+			r2.intercept({ method: 'GET', path: /^\/aaaa\/?\?.*key-marker=b\.txt/ }).reply(200, versionsXml([['c.txt', 'v5', '5', true]]));
+			r2.intercept({ method: 'GET', path: /^\/aaaa\/?\?max-keys=1000&prefix=b\.txt/ }).reply(
+				200,
+				versionsXml([
+					['b.txt', 'v3', '3'],
+					['b.txt', 'v1', '1'],
+				])
+			);
+			r2.intercept({ method: 'GET', path: /^\/bbbb\/?\?.*key-marker=b\.txt/ }).reply(200, versionsXml([['d.txt', 'v6', '6']]));
+			r2.intercept({ method: 'GET', path: /^\/bbbb\/?\?max-keys=1000&prefix=b\.txt/ }).reply(200, versionsXml([['b.txt', 'v2', '2']]));
+
+			const response = await sendSigned('GET', '/multiplex?versions&key-marker=b.txt&version-id-marker=v3&max-keys=3');
+			expect(response.status).toBe(200);
+			const text = await response.text();
+			expect([...text.matchAll(/<VersionId>([^<]+)<\/VersionId>/g)].map((m) => m[1])).toEqual(['v2', 'v1', 'v5']);
+			expect(text).toContain('<DeleteMarker>');
+			expect(text).toContain('<IsTruncated>true</IsTruncated>');
+			expect(text).toContain('<NextKeyMarker>c.txt</NextKeyMarker>');
+			expect(text).toContain('<NextVersionIdMarker>v5</NextVersionIdMarker>');
+
+			// Common prefixes count toward max-keys, are returned once and are not repeated by the next page
+			r2.intercept({ method: 'GET', path: /^\/aaaa\/?\?delimiter=%2F&max-keys=2&versions/ }).reply(
+				200,
+				versionsXml([['a.txt', 'v7', '7']], ['dir/'])
+			);
+			r2.intercept({ method: 'GET', path: /^\/bbbb\/?\?delimiter=%2F&max-keys=2&versions/ }).reply(
+				200,
+				versionsXml([['e.txt', 'v8', '8']], ['dir/'])
+			);
+			const firstPage = await sendSigned('GET', '/multiplex?versions&delimiter=%2F&max-keys=2');
+			const firstText = await firstPage.text();
+			expect([...firstText.matchAll(/<VersionId>([^<]+)<\/VersionId>/g)].map((m) => m[1])).toEqual(['v7']);
+			expect([...firstText.matchAll(/<Prefix>([^<]*)<\/Prefix>/g)].map((m) => m[1])).toEqual(['', 'dir/']);
+			expect(firstText).toContain('<NextKeyMarker>dir/</NextKeyMarker>');
+			expect(firstText).not.toContain('<NextVersionIdMarker>');
+
+			r2.intercept({ method: 'GET', path: /^\/aaaa\/?\?delimiter=%2F&key-marker=dir%2F&max-keys=2&versions/ }).reply(
+				200,
+				versionsXml([], ['dir/'])
+			);
+			r2.intercept({ method: 'GET', path: /^\/bbbb\/?\?delimiter=%2F&key-marker=dir%2F&max-keys=2&versions/ }).reply(
+				200,
+				versionsXml([['e.txt', 'v8', '8']], ['dir/'])
+			);
+			const secondPage = await sendSigned('GET', '/multiplex?versions&delimiter=%2F&max-keys=2&key-marker=dir%2F');
+			const secondText = await secondPage.text();
+			expect([...secondText.matchAll(/<VersionId>([^<]+)<\/VersionId>/g)].map((m) => m[1])).toEqual(['v8']);
+			expect(secondText).not.toContain('<CommonPrefixes>');
+			expect(secondText).toContain('<IsTruncated>false</IsTruncated>');
+
+			r2.intercept({ method: 'GET', path: /^\/(aaaa|bbbb)\/b\.txt\?versionId=/ }).reply(200, 'old version');
+			const version = await sendSigned('GET', '/multiplex/b.txt?versionId=a%2Bb%20c');
+			expect(version.status).toBe(200);
+			expect(await version.text()).toBe('old version');
+
+			// Version IDs are opaque and must reach R2 encoded the way they were signed
+			const signed = await createSignedR2Request('GET', 'aaaa', '/b.txt', env, new URLSearchParams({ versionId: 'a+b c' }));
+			expect(new URL(signed.url).search).toBe('?versionId=a%2Bb%20c');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should split DeleteObjects across buckets and merge the results', async () => {
+		const bodies: string[] = [];
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+			r2.intercept({ method: 'POST', path: /^\/(aaaa|bbbb)\/?\?delete/ })
+				.reply(200, (opts) => {
+					const body = typeof opts.body === 'string' ? opts.body : new TextDecoder().decode(opts.body as Uint8Array);
+					bodies.push(body);
+					return (
+						'<DeleteResult>' +
+						[...body.matchAll(/<Key>([^<]+)<\/Key>/g)]
+							.map(([, key]) =>
+								key === 'locked.txt'
+									? `<Error><Key>${key}</Key><Code>AccessDenied</Code><Message>Locked</Message></Error>`
+									: `<Deleted><Key>${key}</Key></Deleted>`
+							)
+							.join('') +
+						'</DeleteResult>'
+					);
+				})
+				.persist();
+
+			const keys = ['file1.txt', 'file2.txt', 'file3.txt', 'file4.txt', 'locked.txt'];
+			const body = `<Delete>${keys.map((key) => `<Object><Key>${key}</Key></Object>`).join('')}</Delete>`;
+			const response = await sendSigned('POST', '/multiplex?delete', { body });
+			expect(response.status).toBe(200);
+			const text = await response.text();
+			expect([...text.matchAll(/<Deleted>\s*<Key>([^<]+)<\/Key>/g)].map((m) => m[1])).toEqual(keys.slice(0, 4));
+			expect(text).toMatch(/<Error>\s*<Key>locked\.txt<\/Key>\s*<Code>AccessDenied<\/Code>/);
+			// One request per bucket, each carrying only its own keys
+			expect(bodies.length).toBe(2);
+			expect(bodies.join('').match(/<Key>/g)?.length).toBe(keys.length);
+
+			const quiet = await sendSigned('POST', '/multiplex?delete', { body: body.replace('<Delete>', '<Delete><Quiet>true</Quiet>') });
+			const quietText = await quiet.text();
+			expect(quietText).not.toContain('<Deleted>');
+			expect(quietText).toContain('<Key>locked.txt</Key>');
+
+			const badDigest = await sendSigned('POST', '/multiplex?delete', { body, headers: { 'content-md5': 'AAAAAAAAAAAAAAAAAAAAAA==' } });
+			expect(badDigest.status).toBe(400);
+			expect(await badDigest.text()).toContain('<Code>BadDigest</Code>');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should rewrite copy sources and stream copies between buckets', async () => {
+		const pool = [
+			{ name: 'aaaa', weight: 1 },
+			{ name: 'bbbb', weight: 1 },
+		];
+		const keys = ['file1.txt', 'file2.txt', 'file3.txt', 'file4.txt', 'file5.txt'];
+		const buckets = await Promise.all(keys.map((key) => pickBucket(key, pool)));
+		const source = keys[0];
+		const sameBucketKey = keys.find((key, i) => i > 0 && buckets[i] === buckets[0])!;
+		const otherBucketKey = keys.find((key, i) => buckets[i] !== buckets[0])!;
+		const otherBucket = buckets[keys.indexOf(otherBucketKey)];
+		const escape = (value: string) => value.replace(/\./g, '\\.');
+
+		const putHeaders: Record<string, string>[] = [];
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+
+			// Same bucket: R2 copies server-side from the physical source
+			r2.intercept({ method: 'PUT', path: new RegExp(`^/${buckets[0]}/${escape(sameBucketKey)}$`) }).reply(200, (opts) => {
+				putHeaders.push(opts.headers as Record<string, string>);
+				return '<CopyObjectResult><ETag>"abc"</ETag></CopyObjectResult>';
+			});
+			const sameBucket = await sendSigned('PUT', `/multiplex/${sameBucketKey}`, {
+				headers: { 'x-amz-copy-source': `multiplex/${source}` },
+			});
+			expect(sameBucket.status).toBe(200);
+			expect(await sameBucket.text()).toContain('<CopyObjectResult>');
+			expect(putHeaders[0]['x-amz-copy-source']).toBe(`/${buckets[0]}/${source}`);
+
+			// Different buckets: the source is streamed into the destination, keeping its metadata
+			r2.intercept({ method: 'GET', path: new RegExp(`^/${buckets[0]}/${escape(source)}$`) }).reply(200, 'hello', {
+				headers: { 'content-type': 'text/plain', 'content-length': '5', 'x-amz-meta-color': 'blue' },
+			});
+			r2.intercept({ method: 'PUT', path: new RegExp(`^/${otherBucket}/${escape(otherBucketKey)}$`) }).reply(
+				200,
+				(opts) => {
+					putHeaders.push(opts.headers as Record<string, string>);
+					return '';
+				},
+				{ headers: { etag: '"def"' } }
+			);
+			const crossBucket = await sendSigned('PUT', `/multiplex/${otherBucketKey}`, {
+				headers: { 'x-amz-copy-source': `/multiplex/${source}`, 'content-type': 'application/octet-stream' },
+			});
+			expect(crossBucket.status).toBe(200);
+			const text = await crossBucket.text();
+			expect(text).toContain('<CopyObjectResult');
+			expect(text).toContain('<ETag>&quot;def&quot;</ETag>');
+			expect(putHeaders[1]['x-amz-copy-source']).toBeUndefined();
+			expect(putHeaders[1]['content-type']).toBe('text/plain');
+			expect(putHeaders[1]['x-amz-meta-color']).toBe('blue');
+
+			const missingBucket = await sendSigned('PUT', `/multiplex/${otherBucketKey}`, { headers: { 'x-amz-copy-source': `nope/${source}` } });
+			expect(missingBucket.status).toBe(404);
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should page ListObjectsV2 through every bucket in byte order with signed continuation tokens', async () => {
+		const bucketKeys: Record<string, string[]> = {
+			aaaa: ['a/1', 'a/2', 'c', 'e', 'g', 'i', 'k', '\u{1F600}'],
+			bbbb: ['a/3', 'b', 'd', 'f', 'h', 'j', '\uFFFD'],
+		};
+
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+			for (const [bucket, keys] of Object.entries(bucketKeys)) {
+				r2.intercept({ method: 'GET', path: new RegExp(`^/${bucket}/?\\?`) })
+					.reply(200, fakeListObjectsV2(keys))
+					.persist();
+			}
+
+			const listAll = async (query: string) => {
+				const pages: string[][] = [];
+				let token: string | undefined;
+				do {
+					const tokenParam = token ? `&continuation-token=${encodeURIComponent(token)}` : '';
+					const response = await sendSigned('GET', `/multiplex?list-type=2&max-keys=3${query}${tokenParam}`);
+					expect(response.status).toBe(200);
+					const text = await response.text();
+					const entries = [...text.matchAll(/<(?:Key|Prefix)>([^<]+)<\/(?:Key|Prefix)>/g)].map((m) => m[1]);
+					expect(text).toContain(`<KeyCount>${entries.length}</KeyCount>`);
+					pages.push(entries);
+					token = text.match(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/)?.[1];
+				} while (token);
+				return pages;
+			};
+
+			// Every key exactly once, in UTF-8 byte order (U+FFFD before U+1F600), far past one R2 page per bucket
+			const allKeys = [...bucketKeys.aaaa, ...bucketKeys.bbbb].sort(compareKeys);
+			const pages = await listAll('');
+			expect(pages.flat()).toEqual(allKeys);
+			expect(pages.flat().slice(-2)).toEqual(['\uFFFD', '\u{1F600}']);
+			expect(pages.every((page) => page.length <= 3)).toBe(true);
+
+			// Common prefixes count toward max-keys and are returned once
+			const grouped = (await listAll('&delimiter=/')).flat().sort(compareKeys);
+			expect(grouped).toEqual(['a/', ...allKeys.filter((key) => !key.startsWith('a/'))]);
+
+			// Tokens are signed and bound to the listing they came from
+			const first = await (await sendSigned('GET', '/multiplex?list-type=2&max-keys=3')).text();
+			const token = first.match(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/)![1];
+			const forged = token.replace(/^./, (c) => (c === 'A' ? 'B' : 'A'));
+			const forgedResponse = await sendSigned('GET', `/multiplex?list-type=2&continuation-token=${encodeURIComponent(forged)}`);
+			expect(forgedResponse.status).toBe(400);
+			expect(await forgedResponse.text()).toContain('<Code>InvalidArgument</Code>');
+			expect((await sendSigned('GET', `/multiplex?list-type=2&prefix=a/&continuation-token=${encodeURIComponent(token)}`)).status).toBe(
+				400
+			);
+
+			// Without LIST_TOKEN_SECRET no S3 request is served, not only those that need a token
+			const unsignedEnv = { ...env, LIST_TOKEN_SECRET: undefined } as Env;
+			for (const path of [
+				'/multiplex?list-type=2&max-keys=3',
+				`/multiplex?list-type=2&continuation-token=${encodeURIComponent(token)}`,
+				'/multiplex/a.txt',
+			]) {
+				const unconfigured = await sendSigned('GET', path, { env: unsignedEnv });
+				expect(unconfigured.status).toBe(500);
+				expect(await unconfigured.text()).toContain('<Code>InternalError</Code>');
+			}
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should serve lists from the listing index and reconcile it with the buckets', async () => {
+		const indexedEnv = {
+			...env,
+			VIRTUAL_BUCKETS: { indexed: { buckets: ['cccc', 'dddd'], indexShards: 2 } },
+		} as unknown as Env;
+		const options = { env: indexedEnv };
+		const listKeys = async (query: string) => {
+			const response = await sendSigned('GET', `/indexed?list-type=2${query}`, options);
+			expect(response.status).toBe(200);
+			return [...(await response.text()).matchAll(/<(?:Key|Prefix)>([^<]+)<\/(?:Key|Prefix)>/g)].map((m) => m[1]).sort(compareKeys);
+		};
+
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+			r2.intercept({ method: 'PUT', path: /^\/(cccc|dddd)\// })
+				.reply(200, '', { headers: { etag: '"e"' } })
+				.persist();
+			r2.intercept({ method: 'DELETE', path: /^\/(cccc|dddd)\// })
+				.reply(204, '')
+				.persist();
+
+			for (const key of ['docs/a.txt', 'docs/b.txt', 'top.txt']) {
+				expect((await sendSigned('PUT', `/indexed/${key}`, { ...options, body: key })).status).toBe(200);
+			}
+
+			// No bucket list is mocked, so these are answered by the index alone
+			expect(await listKeys('')).toEqual(['docs/a.txt', 'docs/b.txt', 'top.txt']);
+			expect(await listKeys('&delimiter=/')).toEqual(['docs/', 'top.txt']);
+
+			expect((await sendSigned('DELETE', '/indexed/top.txt', options)).status).toBe(204);
+			expect(await listKeys('&delimiter=/')).toEqual(['docs/']);
+
+			// docs/b.txt was removed and extra.txt added behind the proxy's back
+			const bucketKeys: Record<string, string[]> = { cccc: ['docs/a.txt', 'extra.txt'], dddd: [] };
+			for (const [bucket, keys] of Object.entries(bucketKeys)) {
+				r2.intercept({ method: 'GET', path: new RegExp(`^/${bucket}/?\\?`) }).reply(200, fakeListObjectsV2(keys));
+			}
+			// The reconcile job only overrides index rows older than its listing
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			await reconcileIndexes(indexedEnv);
+			expect(await listKeys('')).toEqual(['docs/a.txt', 'extra.txt']);
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should serve buckets configured with an R2 binding without the S3 API', async () => {
+		// Buckets served by a binding need no account
+		const boundEnv = {
+			...env,
+			ACCOUNT_ID: undefined,
+			VIRTUAL_BUCKETS: {
+				bound: {
+					buckets: [
+						{ name: 'aaaa', binding: 'AAAA' },
+						{ name: 'bbbb', binding: 'BBBB' },
+					],
+				},
+			},
+		} as unknown as Env;
+		const options = { env: boundEnv };
+
+		// Nothing may reach R2 over HTTP
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const put = await sendSigned('PUT', '/bound/bound/hello.txt', {
+				...options,
+				body: 'hello world',
+				headers: { 'content-type': 'text/plain', 'x-amz-meta-color': 'blue' },
+			});
+			expect(put.status).toBe(200);
+			const etag = put.headers.get('etag')!;
+			expect(etag).toMatch(/^".+"$/);
+
+			const range = await sendSigned('GET', '/bound/bound/hello.txt', { ...options, headers: { range: 'bytes=0-4' } });
+			expect(range.status).toBe(206);
+			expect(range.headers.get('content-range')).toBe('bytes 0-4/11');
+			expect(await range.text()).toBe('hello');
+
+			const notModified = await sendSigned('GET', '/bound/bound/hello.txt', { ...options, headers: { 'if-none-match': etag } });
+			expect(notModified.status).toBe(304);
+
+			const head = await sendSigned('HEAD', '/bound/bound/hello.txt', options);
+			expect(head.status).toBe(200);
+			expect(head.headers.get('content-length')).toBe('11');
+			expect(head.headers.get('content-type')).toBe('text/plain');
+			expect(head.headers.get('x-amz-meta-color')).toBe('blue');
+
+			// Copies keep the source's metadata, whichever buckets the keys hash to
+			for (const key of ['copy-1.txt', 'copy-2.txt', 'copy-3.txt']) {
+				const copy = await sendSigned('PUT', `/bound/bound/${key}`, {
+					...options,
+					headers: { 'x-amz-copy-source': 'bound/bound/hello.txt' },
+				});
+				expect(copy.status).toBe(200);
+				expect(await copy.text()).toContain('<CopyObjectResult');
+				const copied = await sendSigned('GET', `/bound/bound/${key}`, options);
+				expect(copied.headers.get('x-amz-meta-color')).toBe('blue');
+				expect(await copied.text()).toBe('hello world');
+			}
+
+			const create = await sendSigned('POST', '/bound/bound/multipart.txt?uploads', options);
+			expect(create.status).toBe(200);
+			const uploadId = (await create.text()).match(/<UploadId>([^<]+)<\/UploadId>/)![1];
+			const part = await sendSigned('PUT', `/bound/bound/multipart.txt?partNumber=1&uploadId=${encodeURIComponent(uploadId)}`, {
+				...options,
+				body: 'one part',
+			});
+			expect(part.status).toBe(200);
+			const complete = await sendSigned('POST', `/bound/bound/multipart.txt?uploadId=${encodeURIComponent(uploadId)}`, {
+				...options,
+				body: `<CompleteMultipartUpload><Part><PartNumber>1</PartNumber><ETag>${part.headers.get(
+					'etag'
+				)}</ETag></Part></CompleteMultipartUpload>`,
+			});
+			expect(complete.status).toBe(200);
+			expect(await (await sendSigned('GET', '/bound/bound/multipart.txt', options)).text()).toBe('one part');
+
+			const list = await (await sendSigned('GET', '/bound?list-type=2&prefix=bound/', options)).text();
+			expect([...list.matchAll(/<Key>([^<]+)<\/Key>/g)].map((m) => m[1])).toEqual([
+				'bound/copy-1.txt',
+				'bound/copy-2.txt',
+				'bound/copy-3.txt',
+				'bound/hello.txt',
+				'bound/multipart.txt',
+			]);
+
+			const deleteBody =
+				'<Delete>' +
+				['copy-1.txt', 'copy-2.txt', 'copy-3.txt', 'hello.txt', 'multipart.txt']
+					.map((key) => `<Object><Key>bound/${key}</Key></Object>`)
+					.join('') +
+				'</Delete>';
+			const deleted = await sendSigned('POST', '/bound?delete', { ...options, body: deleteBody });
+			expect(deleted.status).toBe(200);
+			expect([...(await deleted.text()).matchAll(/<Deleted>/g)]).toHaveLength(5);
+
+			expect((await sendSigned('GET', '/bound/bound/hello.txt', options)).status).toBe(404);
+			expect(await (await sendSigned('GET', '/bound?list-type=2&prefix=bound/', options)).text()).not.toContain('<Key>');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should answer NotImplemented for lists a binding cannot serve and find streamed parts while re-sharding', async () => {
+		let key = 'upload-0.bin';
+		for (let i = 1; (await pickBucket(key, parseBucketPool(['xxxx', 'yyyy']))) !== 'yyyy'; i++) key = `upload-${i}.bin`;
+		const before = { ...env, VIRTUAL_BUCKETS: { parts: { buckets: [{ name: 'xxxx', binding: 'AAAA' }] } } } as unknown as Env;
+		const after = {
+			...env,
+			VIRTUAL_BUCKETS: {
+				parts: {
+					buckets: [
+						{ name: 'xxxx', binding: 'AAAA' },
+						{ name: 'yyyy', binding: 'BBBB' },
+					],
+					previousBuckets: [{ name: 'xxxx', binding: 'AAAA' }],
+				},
+			},
+		} as unknown as Env;
+
+		const create = await sendSigned('POST', `/parts/${key}?uploads`, { env: before });
+		const uploadId = encodeURIComponent((await create.text()).match(/<UploadId>([^<]+)<\/UploadId>/)![1]);
+
+		// ListParts cannot tell whether the new bucket has the upload, so the streamed part still finds the old one
+		const part = await sendSigned('PUT', `/parts/${key}?partNumber=1&uploadId=${uploadId}`, {
+			env: after,
+			body: 'one part',
+			headers: { 'x-amz-content-sha256': 'UNSIGNED-PAYLOAD', 'content-length': '8' },
+		});
+		expect(part.status).toBe(200);
+
+		// Not retryable, so SDKs do not keep retrying
+		const uploads = await sendSigned('GET', '/parts?uploads', { env: after });
+		expect(uploads.status).toBe(501);
+		expect(await uploads.text()).toContain('<Code>NotImplemented</Code>');
+		const parts = await sendSigned('GET', `/parts/${key}?uploadId=${uploadId}`, { env: after });
+		expect(parts.status).toBe(501);
+
+		expect((await sendSigned('DELETE', `/parts/${key}?uploadId=${uploadId}`, { env: before })).status).toBe(204);
+	});
+
+	it('should answer with S3 XML errors and fail merged lists when a bucket fails', async () => {
+		const skewed = await sendSigned('GET', '/multiplex/file.txt', { signingDate: new Date(Date.now() - 20 * 60 * 1000) });
+		expect(skewed.status).toBe(403);
+		expect(await skewed.text()).toContain('<Code>RequestTimeTooSkewed</Code>');
+
+		const badMaxKeys = await sendSigned('GET', '/multiplex?list-type=2&max-keys=lots');
+		expect(badMaxKeys.status).toBe(400);
+		const badMaxKeysText = await badMaxKeys.text();
+		expect(badMaxKeysText).toContain('<Code>InvalidArgument</Code>');
+		expect(badMaxKeysText).toContain('<ArgumentName>max-keys</ArgumentName>');
+		expect(badMaxKeysText).toMatch(/<RequestId>[^<]+<\/RequestId>/);
+
+		const errorEnv = { ...env, VIRTUAL_BUCKETS: { failing: { buckets: ['eeee', 'ffff'] } } } as unknown as Env;
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+			r2.intercept({ method: 'GET', path: /^\/eeee\/?\?/ }).reply(200, fakeListObjectsV2(['a.txt']));
+			r2.intercept({ method: 'GET', path: /^\/ffff\/?\?/ }).reply(500, '<Error><Code>InternalError</Code></Error>');
+
+			// A listing missing one bucket's keys would be wrong, so the whole request fails in a way SDKs retry
+			const list = await sendSigned('GET', '/failing?list-type=2', { env: errorEnv });
+			expect(list.status).toBe(503);
+			expect(await list.text()).toContain('<Code>ServiceUnavailable</Code>');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should retry throttled requests and fail fast once a bucket keeps failing', async () => {
+		const retryEnv = { ...env, VIRTUAL_BUCKETS: { retrying: { buckets: ['gggg'] } } } as unknown as Env;
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+			r2.intercept({ method: 'GET', path: '/gggg/throttled.txt' }).reply(429, '<Error><Code>SlowDown</Code></Error>');
+			r2.intercept({ method: 'GET', path: '/gggg/throttled.txt' }).reply(503, '<Error><Code>ServiceUnavailable</Code></Error>');
+			r2.intercept({ method: 'GET', path: '/gggg/throttled.txt' }).reply(200, 'finally');
+
+			const retried = await sendSigned('GET', '/retrying/throttled.txt', { env: retryEnv });
+			expect(retried.status).toBe(200);
+			expect(await retried.text()).toBe('finally');
+
+			// Five failures in a row open the circuit, after which the bucket is not called at all
+			r2.intercept({ method: 'GET', path: '/gggg/down.txt' }).reply(503, '').times(5);
+			const exhausted = await sendSigned('GET', '/retrying/down.txt', { env: retryEnv });
+			expect(exhausted.status).toBe(503);
+			await sendSigned('GET', '/retrying/down.txt', { env: retryEnv });
+
+			const failedFast = await sendSigned('GET', '/retrying/down.txt', { env: retryEnv });
+			expect(failedFast.status).toBe(503);
+			expect(await failedFast.text()).toContain('<Code>ServiceUnavailable</Code>');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should resolve virtual-hosted and path-style requests to the same percent-decoded key', async () => {
+		const hostedEnv = { ...env, BASE_DOMAIN: 's3.example.com', VIRTUAL_BUCKETS: { hosted: { buckets: ['hhhh'] } } } as unknown as Env;
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+
+			// A key that starts with the bucket name is not mistaken for a path-style request
+			r2.intercept({ method: 'PUT', path: '/hhhh/hosted/a%20b%2Bc%2A.txt' }).reply(200, '');
+			const put = await sendSigned('PUT', 'http://hosted.s3.example.com/hosted/a%20b%2Bc%2A.txt', { env: hostedEnv, body: 'hosted' });
+			expect(put.status).toBe(200);
+
+			r2.intercept({ method: 'GET', path: '/hhhh/hosted/a%20b%2Bc%2A.txt' }).reply(200, 'hosted');
+			const get = await sendSigned('GET', 'http://s3.example.com/hosted/hosted/a%20b%2Bc%2A.txt', { env: hostedEnv });
+			expect(get.status).toBe(200);
+			expect(await get.text()).toBe('hosted');
+
+			r2.intercept({ method: 'GET', path: /^\/hhhh\/?\?/ }).reply(200, fakeListObjectsV2(['hosted/a b+c*.txt']));
+			const list = await sendSigned('GET', 'http://hosted.s3.example.com/?list-type=2&prefix=hosted%2F', { env: hostedEnv });
+			expect(list.status).toBe(200);
+			const listText = await list.text();
+			expect(listText).toContain('<Name>hosted</Name>');
+			expect(listText).toContain('<Key>hosted/a b+c*.txt</Key>');
+
+			const malformed = await sendSigned('GET', 'http://hosted.s3.example.com/bad%E0%A4%A.txt', { env: hostedEnv });
+			expect(malformed.status).toBe(400);
+			expect(await malformed.text()).toContain('<Code>InvalidURI</Code>');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should verify signatures over the canonical request as it was received', async () => {
+		// Repeated query parameters are all part of the signature
+		const repeated = await sendSigned('GET', '/no-such-bucket?tag=b&tag=a&empty');
+		expect(repeated.status).toBe(404);
+		expect(await repeated.text()).toContain('<Code>NoSuchBucket</Code>');
+
+		// Header values are canonicalized the way clients sign them
+		const spaced = await sendSigned('GET', '/no-such-bucket', { headers: { 'x-amz-meta-note': '  two   spaces ' } });
+		expect(spaced.status).toBe(404);
+
+		const wrongRegion = await sendSigned('GET', '/no-such-bucket', { region: 'eu-west-1' });
+		expect(wrongRegion.status).toBe(400);
+		expect(await wrongRegion.text()).toContain('<Code>AuthorizationHeaderMalformed</Code>');
+
+		const wrongService = await sendSigned('GET', '/no-such-bucket', { service: 'sts' });
+		expect(wrongService.status).toBe(400);
+		expect(await wrongService.text()).toContain('incorrect service &apos;sts&apos;');
+
+		// A tampered request reports what was signed, so clients can see where they differ
+		const signer = new SignatureV4({
+			credentials: { accessKeyId: env.CLIENT_ACCESS_KEY, secretAccessKey: env.CLIENT_SECRET_KEY },
+			service: 's3',
+			region: 'auto',
+			sha256: Sha256,
+		});
+		const tampered = await signer.sign(
+			new HttpRequest({
+				method: 'GET',
+				headers: { host: 'localhost:8787' },
+				hostname: 'localhost',
+				port: 8787,
+				path: '/no-such-bucket',
+				query: { a: '1' },
+			})
+		);
+		const mismatch = await worker.fetch(
+			new Request('http://localhost:8787/no-such-bucket?a=2', { headers: tampered.headers }),
+			env,
+			createExecutionContext()
+		);
+		expect(mismatch.status).toBe(403);
+		const mismatchText = await mismatch.text();
+		expect(mismatchText).toContain('<Code>SignatureDoesNotMatch</Code>');
+		expect(mismatchText).toContain('<CanonicalRequest>GET\n/no-such-bucket\na=2');
+
+		// A buffered body must match the payload hash it was signed with
+		const body = '<Delete><Object><Key>a.txt</Key></Object></Delete>';
+		const wrongHash = await sendSigned('POST', '/multiplex?delete', {
+			body,
+			headers: { 'x-amz-content-sha256': 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855' },
+		});
+		expect(wrongHash.status).toBe(400);
+		expect(await wrongHash.text()).toContain('<Code>XAmzContentSHA256Mismatch</Code>');
+	});
+
+	it('should only list the buckets placement rules allow to hold a prefix', async () => {
+		const placedEnv = {
+			...env,
+			VIRTUAL_BUCKETS: { placed: { buckets: ['iiii', 'jjjj'], placement: [{ prefix: 'tenants/', segments: 2 }] } },
+		} as unknown as Env;
+		const tenantBucket = await pickBucket('tenants/acme', [
+			{ name: 'iiii', weight: 1 },
+			{ name: 'jjjj', weight: 1 },
+		]);
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			// Only the tenant's bucket is mocked, so listing the other one would fail the request
+			fetchMock
+				.get('https://replaceme.r2.cloudflarestorage.com')
+				.intercept({ method: 'GET', path: new RegExp(`^/${tenantBucket}/?\\?`) })
+				.reply(200, fakeListObjectsV2(['tenants/acme/a.txt', 'tenants/acme/b.txt']));
+
+			const list = await sendSigned('GET', '/placed?list-type=2&prefix=tenants%2Facme%2F', { env: placedEnv });
+			expect(list.status).toBe(200);
+			const listText = await list.text();
+			expect(listText).toContain('<Key>tenants/acme/a.txt</Key>');
+			expect(listText).toContain('<Key>tenants/acme/b.txt</Key>');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should write replicated keys to every replica, read any of them and repair failed writes', async () => {
+		const replicatedEnv = {
+			...env,
+			VIRTUAL_BUCKETS: { replicated: { buckets: ['kkkk', 'llll'], replication: [{ prefix: 'hot/', replicas: 2 }] } },
+		} as unknown as Env;
+		const primary = await pickBucket('hot/a.txt', [
+			{ name: 'kkkk', weight: 1 },
+			{ name: 'llll', weight: 1 },
+		]);
+		const replica = primary === 'kkkk' ? 'llll' : 'kkkk';
+		const copyHeaders: Record<string, string>[] = [];
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+
+			// The object is written to its primary, then copied server-side to the other replica
+			r2.intercept({ method: 'PUT', path: `/${primary}/hot/a.txt` }).reply(200, '', { headers: { etag: '"abc"' } });
+			r2.intercept({ method: 'PUT', path: `/${replica}/hot/a.txt` }).reply(200, (opts) => {
+				copyHeaders.push(opts.headers as Record<string, string>);
+				return '<CopyObjectResult><ETag>"abc"</ETag></CopyObjectResult>';
+			});
+			const put = await sendSigned('PUT', '/replicated/hot/a.txt', { env: replicatedEnv, body: 'hot' });
+			expect(put.status).toBe(200);
+			expect(copyHeaders[0]['x-amz-copy-source']).toBe(`/${primary}/hot/a.txt`);
+
+			// A replica without the key falls back to the other one, whichever is tried first
+			r2.intercept({ method: 'GET', path: `/${primary}/hot/a.txt` }).reply(404, '<Error><Code>NoSuchKey</Code></Error>');
+			r2.intercept({ method: 'GET', path: `/${replica}/hot/a.txt` }).reply(200, 'hot');
+			const get = await sendSigned('GET', '/replicated/hot/a.txt', { env: replicatedEnv });
+			expect(get.status).toBe(200);
+			expect(await get.text()).toBe('hot');
+
+			// Without a majority the write fails, and the repair job copies the object once the replica recovers
+			const primaryB = await pickBucket('hot/b.txt', [
+				{ name: 'kkkk', weight: 1 },
+				{ name: 'llll', weight: 1 },
+			]);
+			const replicaB = primaryB === 'kkkk' ? 'llll' : 'kkkk';
+			r2.intercept({ method: 'PUT', path: `/${primaryB}/hot/b.txt` }).reply(200, '', { headers: { etag: '"def"' } });
+			r2.intercept({ method: 'PUT', path: `/${replicaB}/hot/b.txt` })
+				.reply(500, '<Error><Code>InternalError</Code></Error>')
+				.times(3);
+			const failed = await sendSigned('PUT', '/replicated/hot/b.txt', { env: replicatedEnv, body: 'hot' });
+			expect(failed.status).toBe(503);
+			expect(await failed.text()).toContain('<Code>ServiceUnavailable</Code>');
+			// Only failed writes are queued, under a hash of the key
+			const queued = await env.RESHARD_STATE.list({ prefix: 'replica-repair:' });
+			expect(queued.keys.map((entry) => entry.name)).toEqual([expect.stringMatching(/^replica-repair:replicated:[0-9a-f]{64}$/)]);
+
+			// A namespace that cannot queue the repair does not turn the write into an internal error
+			const brokenKv = {
+				...replicatedEnv,
+				RESHARD_STATE: {
+					get: () => Promise.reject(new Error('KV unavailable')),
+					put: () => Promise.reject(new Error('KV unavailable')),
+				},
+			} as unknown as Env;
+			r2.intercept({ method: 'PUT', path: `/${primaryB}/hot/b.txt` }).reply(200, '', { headers: { etag: '"def"' } });
+			r2.intercept({ method: 'PUT', path: `/${replicaB}/hot/b.txt` }).reply(400, '<Error><Code>InvalidRequest</Code></Error>');
+			expect((await sendSigned('PUT', '/replicated/hot/b.txt', { env: brokenKv, body: 'hot' })).status).toBe(503);
+
+			// The repair copies whatever the primary has by then
+			r2.intercept({ method: 'HEAD', path: `/${primaryB}/hot/b.txt` }).reply(200, '', { headers: { etag: '"def"' } });
+			r2.intercept({ method: 'PUT', path: `/${replicaB}/hot/b.txt` }).reply(200, (opts) => {
+				copyHeaders.push(opts.headers as Record<string, string>);
+				return '<CopyObjectResult><ETag>"def"</ETag></CopyObjectResult>';
+			});
+			await repairReplicas(replicatedEnv);
+			expect(copyHeaders[1]['x-amz-copy-source']).toBe(`/${primaryB}/hot/b.txt`);
+			expect(await env.RESHARD_STATE.list({ prefix: 'replica-repair:' })).toMatchObject({ keys: [] });
+
+			// While re-sharding, a key no replica has yet is read from the previous pool
+			const reshardingEnv = {
+				...env,
+				VIRTUAL_BUCKETS: {
+					replicated: { buckets: ['kkkk', 'llll'], previousBuckets: ['mmmm'], replication: [{ prefix: 'hot/', replicas: 2 }] },
+				},
+			} as unknown as Env;
+			r2.intercept({ method: 'GET', path: /^\/(kkkk|llll)\/hot\/old\.txt$/ })
+				.reply(404, '<Error><Code>NoSuchKey</Code></Error>')
+				.times(2);
+			r2.intercept({ method: 'GET', path: '/mmmm/hot/old.txt' }).reply(200, 'old');
+			const old = await sendSigned('GET', '/replicated/hot/old.txt', { env: reshardingEnv });
+			expect(old.status).toBe(200);
+			expect(await old.text()).toBe('old');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should serve cached reads with ranges and conditionals and purge them on writes', async () => {
+		const cachedEnv = {
+			...env,
+			VIRTUAL_BUCKETS: {
+				cached: {
+					buckets: ['nnnn'],
+					cache: [
+						{ prefix: 'static/', ttl: 60 },
+						{ prefix: 'static/drafts/', ttl: 0 },
+					],
+				},
+			},
+		} as unknown as Env;
+		const objectHeaders = {
+			etag: '"abc"',
+			'content-length': '11',
+			'cache-control': 'max-age=10',
+			'last-modified': 'Fri, 20 Jun 2025 12:00:00 GMT',
+		};
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+
+			// The first read fills the cache in the background
+			r2.intercept({ method: 'GET', path: '/nnnn/static/a.txt' }).reply(200, 'cached body', { headers: objectHeaders });
+			const ctx = createExecutionContext();
+			const miss = await sendSigned('GET', '/cached/static/a.txt', { env: cachedEnv, ctx });
+			expect(await miss.text()).toBe('cached body');
+			await waitOnExecutionContext(ctx);
+
+			// Nothing is mocked any more, so these are answered from the cache
+			const hit = await sendSigned('GET', '/cached/static/a.txt', { env: cachedEnv });
+			expect(hit.status).toBe(200);
+			expect(hit.headers.get('cache-control')).toBe('max-age=10');
+			expect(await hit.text()).toBe('cached body');
+
+			const range = await sendSigned('GET', '/cached/static/a.txt', { env: cachedEnv, headers: { range: 'bytes=0-5' } });
+			expect(range.status).toBe(206);
+			expect(await range.text()).toBe('cached');
+
+			const notModified = await sendSigned('GET', '/cached/static/a.txt', { env: cachedEnv, headers: { 'if-none-match': '"abc"' } });
+			expect(notModified.status).toBe(304);
+
+			const head = await sendSigned('HEAD', '/cached/static/a.txt', { env: cachedEnv });
+			expect(head.status).toBe(200);
+			expect(head.headers.get('etag')).toBe('"abc"');
+
+			// A write purges the key, so the next read sees the new object
+			r2.intercept({ method: 'PUT', path: '/nnnn/static/a.txt' }).reply(200, '', { headers: { etag: '"def"' } });
+			expect((await sendSigned('PUT', '/cached/static/a.txt', { env: cachedEnv, body: 'new body' })).status).toBe(200);
+			r2.intercept({ method: 'GET', path: '/nnnn/static/a.txt' }).reply(200, 'new body', { headers: { etag: '"def"' } });
+			expect(await (await sendSigned('GET', '/cached/static/a.txt', { env: cachedEnv })).text()).toBe('new body');
+
+			// Private objects, SSE-C reads and keys with a ttl of 0 always go to the bucket
+			for (const [path, headers, responseHeaders] of [
+				['/nnnn/static/private.txt', {}, { 'cache-control': 'private' }],
+				['/nnnn/static/sse-c.txt', { 'x-amz-server-side-encryption-customer-algorithm': 'AES256' }, {}],
+				['/nnnn/static/drafts/a.txt', {}, {}],
+			] as [string, Record<string, string>, Record<string, string>][]) {
+				r2.intercept({ method: 'GET', path }).reply(200, 'uncached', { headers: responseHeaders }).times(2);
+				for (let i = 0; i < 2; i++) {
+					const readCtx = createExecutionContext();
+					const resp = await sendSigned('GET', path.replace('/nnnn/', '/cached/'), { env: cachedEnv, headers, ctx: readCtx });
+					expect(await resp.text()).toBe('uncached');
+					await waitOnExecutionContext(readCtx);
+				}
+				// Both reads reached the bucket
+				expect(fetchMock.pendingInterceptors().filter((interceptor) => interceptor.path === path)).toHaveLength(0);
+			}
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should record backend metrics and answer admin requests with the admin token only', async () => {
+		const dataPoints: AnalyticsEngineDataPoint[] = [];
+		const adminEnv = {
+			...env,
+			ADMIN_TOKEN: 'admin-token',
+			METRICS: { writeDataPoint: (dataPoint: AnalyticsEngineDataPoint) => dataPoints.push(dataPoint) },
+			VIRTUAL_BUCKETS: { admin: { buckets: ['oooo', 'pppp'] } },
+		} as unknown as Env;
+		const owner = await pickBucket('a.txt', [
+			{ name: 'oooo', weight: 1 },
+			{ name: 'pppp', weight: 1 },
+		]);
+		const other = owner === 'oooo' ? 'pppp' : 'oooo';
+		const admin = (route: string, token = 'admin-token') =>
+			worker.fetch(
+				new Request(`http://localhost:8787/_admin/${route}`, { headers: { authorization: `Bearer ${token}` } }),
+				adminEnv,
+				createExecutionContext()
+			);
+
+		expect((await admin('config', 'wrong-token')).status).toBe(401);
+		expect((await worker.fetch(new Request('http://localhost:8787/_admin/config'), adminEnv, createExecutionContext())).status).toBe(401);
+		// Without ADMIN_TOKEN the admin API is disabled
+		expect(
+			(
+				await worker.fetch(
+					new Request('http://localhost:8787/_admin/config', { headers: { authorization: 'Bearer ' } }),
+					env,
+					createExecutionContext()
+				)
+			).status
+		).toBe(401);
+
+		const config = await admin('config');
+		expect(config.status).toBe(200);
+		const configBody = await config.json<{ virtualBuckets: { name: string; pool: { name: string }[] }[] }>();
+		expect(configBody.virtualBuckets[0].name).toBe('admin');
+		expect(configBody.virtualBuckets[0].pool.map((member) => member.name)).toEqual(['oooo', 'pppp']);
+
+		// The admin API is only served path-style: `_admin.<BASE_DOMAIN>` is an S3 request, which needs a signature
+		const hosted = await worker.fetch(
+			new Request('http://_admin.s3.example.com/config', { headers: { authorization: 'Bearer admin-token' } }),
+			{ ...adminEnv, BASE_DOMAIN: 's3.example.com' },
+			createExecutionContext()
+		);
+		expect(hosted.status).not.toBe(200);
+		expect(await hosted.text()).toContain('<Error>');
+
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			const r2 = fetchMock.get('https://replaceme.r2.cloudflarestorage.com');
+			r2.intercept({ method: 'HEAD', path: `/${owner}/a.txt` }).reply(200, '', { headers: { etag: '"abc"', 'content-length': '5' } });
+			const locate = await admin('locate?key=a.txt');
+			expect(locate.status).toBe(200);
+			expect(await locate.json()).toMatchObject({
+				bucket: 'admin',
+				key: 'a.txt',
+				owner,
+				locations: [{ bucket: owner, exists: true, etag: '"abc"', size: 5 }],
+			});
+			expect(dataPoints).toContainEqual(expect.objectContaining({ indexes: [owner], blobs: [owner, 'HeadObject', '200', ''] }));
+
+			r2.intercept({ method: 'GET', path: new RegExp(`^/${owner}/?\\?`) }).reply(200, fakeListObjectsV2([]));
+			r2.intercept({ method: 'GET', path: new RegExp(`^/${other}/?\\?`) }).reply(403, '<Error><Code>AccessDenied</Code></Error>');
+			const health = await admin('health');
+			expect(health.status).toBe(503);
+			expect(await health.json()).toMatchObject({
+				healthy: false,
+				buckets: expect.arrayContaining([
+					expect.objectContaining({ bucket: owner, healthy: true }),
+					expect.objectContaining({ bucket: other, healthy: false, status: 403 }),
+				]),
+			});
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should sign each bucket for its own account and stream copies between accounts', async () => {
+		const accountsEnv = {
+			...env,
+			EU_KEY: 'eu-key',
+			EU_SECRET: 'eu-secret',
+			MINIO_KEY: 'minio-key',
+			MINIO_SECRET: 'minio-secret',
+			ACCOUNTS: {
+				eu: { accountId: 'euaccount', jurisdiction: 'eu', secrets: { accessKeyId: 'EU_KEY', secretAccessKey: 'EU_SECRET' } },
+				minio: {
+					endpoint: 'http://localhost:9000',
+					region: 'us-east-1',
+					secrets: { accessKeyId: 'MINIO_KEY', secretAccessKey: 'MINIO_SECRET' },
+				},
+			},
+			VIRTUAL_BUCKETS: {
+				mixed: {
+					buckets: [
+						{ name: 'qqqq', account: 'eu' },
+						{ name: 'rrrr', account: 'minio' },
+					],
+					replication: [{ prefix: 'hot/', replicas: 2 }],
+				},
+			},
+		} as unknown as Env;
+		const origins: Record<string, string> = { qqqq: 'https://euaccount.eu.r2.cloudflarestorage.com', rrrr: 'http://localhost:9000' };
+		const primary = await pickBucket('hot/a.txt', [
+			{ name: 'qqqq', weight: 1 },
+			{ name: 'rrrr', weight: 1 },
+		]);
+		const replica = primary === 'qqqq' ? 'rrrr' : 'qqqq';
+		const authorizations: Record<string, string> = {};
+		const replicaHeaders: Record<string, string>[] = [];
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			for (const bucket of ['qqqq', 'rrrr']) {
+				fetchMock
+					.get(origins[bucket])
+					.intercept({ method: 'GET', path: new RegExp(`^/${bucket}/?\\?`) })
+					.reply(200, (opts) => {
+						authorizations[bucket] = (opts.headers as Record<string, string>).authorization;
+						return fakeListObjectsV2([`${bucket}.txt`])(opts);
+					});
+			}
+			const list = await sendSigned('GET', '/mixed?list-type=2', { env: accountsEnv });
+			expect(list.status).toBe(200);
+			const listText = await list.text();
+			expect(listText).toContain('<Key>qqqq.txt</Key>');
+			expect(listText).toContain('<Key>rrrr.txt</Key>');
+			expect(authorizations.qqqq).toMatch(/Credential=eu-key\/\d{8}\/auto\/s3\/aws4_request/);
+			expect(authorizations.rrrr).toMatch(/Credential=minio-key\/\d{8}\/us-east-1\/s3\/aws4_request/);
+
+			// R2 cannot copy between accounts, so the replica is written from a GET of the primary
+			fetchMock
+				.get(origins[primary])
+				.intercept({ method: 'PUT', path: `/${primary}/hot/a.txt` })
+				.reply(200, '', { headers: { etag: '"abc"' } });
+			fetchMock
+				.get(origins[primary])
+				.intercept({ method: 'GET', path: `/${primary}/hot/a.txt` })
+				.reply(200, 'hot', { headers: { 'content-length': '3', 'content-type': 'text/plain', 'x-amz-meta-color': 'red' } });
+			fetchMock
+				.get(origins[replica])
+				.intercept({ method: 'PUT', path: `/${replica}/hot/a.txt` })
+				.reply(
+					200,
+					(opts) => {
+						replicaHeaders.push(opts.headers as Record<string, string>);
+						return '';
+					},
+					{ headers: { etag: '"abc"' } }
+				);
+			const put = await sendSigned('PUT', '/mixed/hot/a.txt', { env: accountsEnv, body: 'hot' });
+			expect(put.status).toBe(200);
+			expect(replicaHeaders[0]['x-amz-copy-source']).toBeUndefined();
+			expect(replicaHeaders[0]['content-type']).toBe('text/plain');
+			expect(replicaHeaders[0]['x-amz-meta-color']).toBe('red');
+		} finally {
+			fetchMock.deactivate();
+		}
+	});
+
+	it('should encrypt objects under encryption rules and decrypt them on reads', async () => {
+		const encryptionEnv = {
+			...env,
+			MASTER_KEY: btoa(String.fromCharCode(...new Uint8Array(32).fill(7))),
+			VIRTUAL_BUCKETS: { vault: { buckets: [{ name: 'ssss', binding: 'AAAA' }], encryption: [{ prefix: 'secret/', key: 'MASTER_KEY' }] } },
+		} as unknown as Env;
+		// Three chunks, the last one partial
+		const content = 'abcdefghij'.repeat(15000);
+
+		const put = await sendSigned('PUT', '/vault/secret/a.bin', {
+			env: encryptionEnv,
+			body: content,
+			headers: { 'content-length': String(content.length), 'x-amz-meta-multiplex-plaintext-size': '1' },
+		});
+		expect(put.status).toBe(200);
+		const stored = await env.AAAA.get('secret/a.bin');
+		const ciphertext = await stored!.text();
+		expect(stored!.size).toBe(content.length + 3 * 16);
+		expect(stored!.customMetadata!['multiplex-encryption']).toBe('aes-256-gcm-chunked-64k');
+		expect(stored!.customMetadata!['multiplex-plaintext-size']).toBe(String(content.length));
+		expect(ciphertext).not.toContain('abcdefghij');
+
+		const get = await sendSigned('GET', '/vault/secret/a.bin', { env: encryptionEnv });
+		expect(get.status).toBe(200);
+		expect(get.headers.get('content-length')).toBe(String(content.length));
+		expect(get.headers.get('x-amz-meta-multiplex-encryption')).toBeNull();
+		expect(await get.text()).toBe(content);
+
+		// Ranges are decrypted from the chunks covering them, including across chunk boundaries
+		for (const [header, start, end] of [
+			['bytes=70000-70009', 70000, 70009],
+			['bytes=65530-131080', 65530, 131080],
+			['bytes=-5', content.length - 5, content.length - 1],
+		] as const) {
+			const range = await sendSigned('GET', '/vault/secret/a.bin', { env: encryptionEnv, headers: { range: header } });
+			expect(range.status).toBe(206);
+			expect(range.headers.get('content-range')).toBe(`bytes ${start}-${end}/${content.length}`);
+			expect(await range.text()).toBe(content.slice(start, end + 1));
+		}
+		const unsatisfiable = await sendSigned('GET', '/vault/secret/a.bin', { env: encryptionEnv, headers: { range: 'bytes=150010-150020' } });
+		expect(unsatisfiable.status).toBe(416);
+
+		const head = await sendSigned('HEAD', '/vault/secret/a.bin', { env: encryptionEnv });
+		expect(head.headers.get('content-length')).toBe(String(content.length));
+		const rangedHead = await sendSigned('HEAD', '/vault/secret/a.bin', { env: encryptionEnv, headers: { range: 'bytes=70000-70009' } });
+		expect(rangedHead.status).toBe(206);
+		expect(rangedHead.headers.get('content-length')).toBe('10');
+		expect(rangedHead.headers.get('content-range')).toBe(`bytes 70000-70009/${content.length}`);
+
+		// Responses passed on as they are never carry the reserved metadata either
+		const notModified = await sendSigned('GET', '/vault/secret/a.bin', {
+			env: encryptionEnv,
+			headers: { 'if-none-match': head.headers.get('etag')! },
+		});
+		expect(notModified.status).toBe(304);
+		expect([...notModified.headers.keys()].filter((name) => name.startsWith('x-amz-meta-multiplex-'))).toEqual([]);
+
+		// Copies decrypt the source and encrypt the copy with a key of its own
+		const copy = await sendSigned('PUT', '/vault/secret/b.bin', {
+			env: encryptionEnv,
+			headers: { 'x-amz-copy-source': '/vault/secret/a.bin' },
+		});
+		expect(copy.status).toBe(200);
+		const copied = await env.AAAA.head('secret/b.bin');
+		expect(copied!.customMetadata!['multiplex-wrapped-key']).not.toBe(stored!.customMetadata!['multiplex-wrapped-key']);
+		expect(await (await sendSigned('GET', '/vault/secret/b.bin', { env: encryptionEnv })).text()).toBe(content);
+
+		// Keys outside the rules are stored as they are, and lists report the plaintext size of encrypted keys. An
+		// object stored before its rule existed keeps its size.
+		const plain = await sendSigned('PUT', '/vault/secretless.txt', {
+			env: encryptionEnv,
+			body: 'hello',
+			headers: { 'x-amz-meta-multiplex-encryption': 'aes-256-gcm-chunked-64k' },
+		});
+		expect(plain.status).toBe(200);
+		const plainStored = await env.AAAA.get('secretless.txt');
+		expect(plainStored!.customMetadata).toEqual({});
+		expect(await plainStored!.text()).toBe('hello');
+		await env.AAAA.put('secret/old.txt', 'hello');
+		const list = await sendSigned('GET', '/vault?list-type=2&prefix=secret', { env: encryptionEnv });
+		expect((await list.text()).match(/<Size>\d+<\/Size>/g)).toEqual([
+			`<Size>${content.length}</Size>`,
+			`<Size>${content.length}</Size>`,
+			'<Size>5</Size>',
+			'<Size>5</Size>',
+		]);
+
+		const multipart = await sendSigned('POST', '/vault/secret/c.bin?uploads', { env: encryptionEnv });
+		expect(multipart.status).toBe(501);
+	});
+
+	it('should emit object events with logical keys to queues and signed webhooks', async () => {
+		const queued: unknown[] = [];
+		const notifyEnv = {
+			...env,
+			EVENTS: {
+				send: async (body: unknown) => queued.push(body),
+				sendBatch: async (messages: { body: unknown }[]) => queued.push(...messages.map((message) => message.body)),
+			},
+			WEBHOOK_SECRET: 'webhook-secret',
+			VIRTUAL_BUCKETS: {
+				gallery: {
+					buckets: [{ name: 'uuuu', binding: 'BBBB' }],
+					notifications: [
+						{ prefix: 'events/', suffix: '.jpg', queue: 'EVENTS' },
+						{ events: ['ObjectRemoved:*'], webhook: 'https://hooks.example.com/r2', secret: 'WEBHOOK_SECRET' },
+					],
+				},
+			},
+		} as unknown as Env;
+		const send = async (method: string, path: string, options: SendOptions = {}) => {
+			const ctx = createExecutionContext();
+			const resp = await sendSigned(method, path, { ...options, env: notifyEnv, ctx });
+			await waitOnExecutionContext(ctx);
+			return resp;
+		};
+
+		const put = await send('PUT', '/gallery/events/a.jpg', { body: 'image', headers: { 'content-length': '5' } });
+		expect(put.status).toBe(200);
+		expect(queued).toEqual([
+			{
+				eventName: 'ObjectCreated:Put',
+				eventTime: expect.any(String),
+				bucket: 'gallery',
+				object: { key: 'events/a.jpg', size: 5, eTag: put.headers.get('etag') },
+				accessKeyId: env.CLIENT_ACCESS_KEY,
+			},
+		]);
+
+		// Keys the rules do not select emit nothing
+		expect((await send('PUT', '/gallery/events/a.png', { body: 'image' })).status).toBe(200);
+		expect(queued).toHaveLength(1);
+
+		const copy = await send('PUT', '/gallery/events/b.jpg', { headers: { 'x-amz-copy-source': '/gallery/events/a.jpg' } });
+		expect(copy.status).toBe(200);
+		expect(queued[1]).toMatchObject({ eventName: 'ObjectCreated:Copy', object: { key: 'events/b.jpg', size: 5 } });
+
+		const webhooks: { body: string; headers: Record<string, string> }[] = [];
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		try {
+			fetchMock
+				.get('https://hooks.example.com')
+				.intercept({ method: 'POST', path: '/r2' })
+				.reply(200, (opts) => {
+					webhooks.push({ body: String(opts.body), headers: opts.headers as Record<string, string> });
+					return '';
+				})
+				.times(2);
+
+			expect((await send('DELETE', '/gallery/events/a.jpg')).status).toBe(204);
+			const deleteBody = '<Delete><Object><Key>events/b.jpg</Key></Object><Object><Key>events/a.png</Key></Object></Delete>';
+			expect((await send('POST', '/gallery?delete', { body: deleteBody })).status).toBe(200);
+		} finally {
+			fetchMock.deactivate();
+		}
+
+		// Deletes go to both rules, each selecting the keys it matches
+		expect(queued.slice(2)).toEqual([
+			expect.objectContaining({ eventName: 'ObjectRemoved:Delete', object: { key: 'events/a.jpg' } }),
+			expect.objectContaining({ eventName: 'ObjectRemoved:Delete', object: { key: 'events/b.jpg' } }),
+		]);
+		expect(webhooks).toHaveLength(2);
+		expect(JSON.parse(webhooks[1].body).events.map((event: { object: { key: string } }) => event.object.key)).toEqual([
+			'events/b.jpg',
+			'events/a.png',
+		]);
+		const { body, headers } = webhooks[0];
+		const key = await crypto.subtle.importKey('raw', new TextEncoder().encode('webhook-secret'), { name: 'HMAC', hash: 'SHA-256' }, false, [
+			'sign',
+		]);
+		const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${headers['x-multiplex-timestamp']}.${body}`));
+		expect(headers['x-multiplex-signature']).toBe(
+			`sha256=${[...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, '0')).join('')}`
+		);
+		expect(JSON.parse(body).events).toEqual([
+			{
+				eventName: 'ObjectRemoved:Delete',
+				eventTime: expect.any(String),
+				bucket: 'gallery',
+				object: { key: 'events/a.jpg' },
+				accessKeyId: env.CLIENT_ACCESS_KEY,
+			},
+		]);
 	});
 });
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { operationName } from '../src/metrics';
+
+describe('Metrics', () => {
+	it('should name the S3 operation of a backend request', () => {
+		const none = new Headers();
+		const copy = new Headers({ 'x-amz-copy-source': '/aaaa/a.txt' });
+		const cases: [string, string, string, Headers, string][] = [
+			['GET', '/', 'list-type=2', none, 'ListObjectsV2'],
+			['GET', '/', '', none, 'ListObjects'],
+			['GET', '/', 'versions', none, 'ListObjectVersions'],
+			['GET', '/', 'uploads', none, 'ListMultipartUploads'],
+			['POST', '/', 'delete', none, 'DeleteObjects'],
+			['HEAD', '/', '', none, 'HeadBucket'],
+			['GET', '/a.txt', '', none, 'GetObject'],
+			['GET', '/a.txt', 'uploadId=1', none, 'ListParts'],
+			['HEAD', '/a.txt', '', none, 'HeadObject'],
+			['PUT', '/a.txt', '', none, 'PutObject'],
+			['PUT', '/a.txt', '', copy, 'CopyObject'],
+			['PUT', '/a.txt', 'uploadId=1&partNumber=1', none, 'UploadPart'],
+			['PUT', '/a.txt', 'uploadId=1&partNumber=1', copy, 'UploadPartCopy'],
+			['POST', '/a.txt', 'uploads', none, 'CreateMultipartUpload'],
+			['POST', '/a.txt', 'uploadId=1', none, 'CompleteMultipartUpload'],
+			['DELETE', '/a.txt', '', none, 'DeleteObject'],
+			['DELETE', '/a.txt', 'uploadId=1', none, 'AbortMultipartUpload'],
+		];
+		for (const [method, path, query, headers, operation] of cases) {
+			expect(operationName(method, path, new URLSearchParams(query), headers)).toBe(operation);
+		}
+	});
+});
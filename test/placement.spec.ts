@@ -0,0 +1,256 @@
+import { describe, it, expect } from 'vitest';
+import {
+	getPrefixBuckets,
+	parseCacheRules,
+	parseBucketPool,
+	parseEncryptionRules,
+	parseNotificationRules,
+	parsePlacementRules,
+	parseReplicationRules,
+	parseVirtualBuckets,
+	pickBucket,
+	placeKey,
+	placementKey,
+	placeReplicas,
+	rankBuckets,
+} from '../src/placement';
+
+const pool2 = parseBucketPool(['aaaa', 'bbbb']);
+const pool3 = parseBucketPool(['aaaa', 'bbbb', 'cccc']);
+const weighted = parseBucketPool(['aaaa', { name: 'bbbb', weight: 3 }]);
+
+describe('Bucket placement', () => {
+	// These vectors pin placement across releases. If this test fails, existing objects would become
+	// unreachable after deploying: do not update the expectations unless you are deliberately re-sharding.
+	it('should place keys deterministically', async () => {
+		const vectors: [string, string, string, string[], string][] = [
+			// key, 2 buckets, 3 buckets, 3-bucket ranking, weighted
+			['file1.txt', 'aaaa', 'cccc', ['cccc', 'aaaa', 'bbbb'], 'aaaa'],
+			['file2.txt', 'aaaa', 'cccc', ['cccc', 'aaaa', 'bbbb'], 'bbbb'],
+			['documents/file6.txt', 'aaaa', 'aaaa', ['aaaa', 'bbbb', 'cccc'], 'aaaa'],
+			['images/file7.jpg', 'bbbb', 'bbbb', ['bbbb', 'aaaa', 'cccc'], 'bbbb'],
+			['data/file8.json', 'aaaa', 'aaaa', ['aaaa', 'cccc', 'bbbb'], 'aaaa'],
+			['logs/file10.log', 'aaaa', 'cccc', ['cccc', 'aaaa', 'bbbb'], 'bbbb'],
+			['😀/unicode-ключ', 'bbbb', 'cccc', ['cccc', 'bbbb', 'aaaa'], 'bbbb'],
+		];
+
+		for (const [key, in2, in3, ranking, inWeighted] of vectors) {
+			expect(await pickBucket(key, pool2)).toBe(in2);
+			expect(await pickBucket(key, pool3)).toBe(in3);
+			expect((await rankBuckets(key, pool3)).map((m) => m.name)).toEqual(ranking);
+			expect(await pickBucket(key, weighted)).toBe(inWeighted);
+		}
+	});
+
+	it('should only move keys to the new bucket when growing the pool', async () => {
+		let moved = 0;
+		const total = 2000;
+		for (let i = 0; i < total; i++) {
+			const key = `key-${i}`;
+			const before = await pickBucket(key, pool2);
+			const after = await pickBucket(key, pool3);
+			if (before !== after) {
+				expect(after).toBe('cccc');
+				moved++;
+			}
+		}
+
+		// Expect roughly 1/3 of keys to move
+		expect(moved / total).toBeGreaterThan(0.28);
+		expect(moved / total).toBeLessThan(0.38);
+	});
+
+	it('should respect bucket weights', async () => {
+		let heavy = 0;
+		const total = 2000;
+		for (let i = 0; i < total; i++) {
+			if ((await pickBucket(`key-${i}`, weighted)) === 'bbbb') heavy++;
+		}
+
+		expect(heavy / total).toBeGreaterThan(0.7);
+		expect(heavy / total).toBeLessThan(0.8);
+	});
+
+	it('should reject invalid pools', () => {
+		expect(() => parseBucketPool([])).toThrow();
+		expect(() => parseBucketPool(['aaaa', 'aaaa'])).toThrow();
+		expect(() => parseBucketPool([{ name: 'aaaa', weight: 0 }])).toThrow();
+		expect(() => parseBucketPool([{ name: 'aaaa', binding: '' }])).toThrow();
+		expect(parseBucketPool([{ name: 'aaaa', binding: 'AAAA' }])).toEqual([{ name: 'aaaa', weight: 1, binding: 'AAAA' }]);
+		expect(parseBucketPool('["aaaa", {"name": "bbbb", "weight": 2}]')).toEqual([
+			{ name: 'aaaa', weight: 1 },
+			{ name: 'bbbb', weight: 2 },
+		]);
+	});
+
+	it('should parse virtual buckets and reject shared physical buckets', () => {
+		const virtualBuckets = parseVirtualBuckets({
+			media: { buckets: ['media-1', 'media-2'], previousBuckets: ['media-1'] },
+			logs: { buckets: ['logs-1'], indexShards: 4 },
+		});
+		expect(virtualBuckets.get('media')?.previousPool).toEqual([{ name: 'media-1', weight: 1 }]);
+		expect(virtualBuckets.get('logs')?.previousPool).toBeNull();
+		expect(virtualBuckets.get('media')?.indexShards).toBe(0);
+		expect(virtualBuckets.get('logs')?.indexShards).toBe(4);
+
+		expect(() => parseVirtualBuckets({ logs: { buckets: ['logs-1'], indexShards: -1 } })).toThrow();
+
+		expect(() => parseVirtualBuckets({ media: { buckets: ['shared'] }, logs: { buckets: ['shared'] } })).toThrow();
+	});
+
+	it('should colocate keys under placement rules and narrow lists to the buckets that can hold a prefix', async () => {
+		const media = parseVirtualBuckets({
+			media: {
+				buckets: ['aaaa', 'bbbb', 'cccc'],
+				placement: [
+					{ prefix: 'tenants/', segments: 2 },
+					{ prefix: 'logs/', delimiter: '-' },
+					{ prefix: 'shared/', bucket: 'bbbb' },
+					{ prefix: 'tenants/big/', segments: 3 },
+				],
+			},
+		}).get('media')!;
+
+		expect(placementKey('tenants/acme/invoices/1.pdf', media.placement)).toBe('tenants/acme');
+		expect(placementKey('tenants/big/eu/1.pdf', media.placement)).toBe('tenants/big/eu');
+		expect(placementKey('logs/2025-06-20.log', media.placement)).toBe('logs/2025');
+		expect(placementKey('other/file.txt', media.placement)).toBe('other/file.txt');
+
+		const acme = await pickBucket('tenants/acme', media.pool);
+		for (const key of ['tenants/acme/a.txt', 'tenants/acme/b/c.txt', 'tenants/acme']) {
+			expect(await placeKey(media, key)).toBe(acme);
+		}
+		expect(await placeKey(media, 'shared/anything.txt')).toBe('bbbb');
+
+		expect(await getPrefixBuckets(media, 'tenants/acme/')).toEqual([acme]);
+		expect(await getPrefixBuckets(media, 'shared/')).toEqual(['bbbb']);
+		expect(await getPrefixBuckets(media, 'logs/2025-')).toEqual([await pickBucket('logs/2025', media.pool)]);
+		// These prefixes span several placement keys or rules
+		expect(await getPrefixBuckets(media, 'tenants/acme')).toHaveLength(3);
+		expect(await getPrefixBuckets(media, 'tenants/')).toHaveLength(3);
+		expect(await getPrefixBuckets(media, '')).toHaveLength(3);
+	});
+
+	it('should reject invalid placement rules', () => {
+		const pool = parseBucketPool(['aaaa', 'bbbb']);
+		expect(() => parsePlacementRules({ prefix: 'a/' }, pool)).toThrow();
+		expect(() => parsePlacementRules([{ prefix: 'a/' }], pool)).toThrow();
+		expect(() => parsePlacementRules([{ prefix: 'a/', segments: 0 }], pool)).toThrow();
+		expect(() => parsePlacementRules([{ prefix: 'a/', segments: 1, bucket: 'aaaa' }], pool)).toThrow();
+		expect(() => parsePlacementRules([{ prefix: 'a/', bucket: 'cccc' }], pool)).toThrow();
+		expect(() =>
+			parsePlacementRules(
+				[
+					{ prefix: 'a/', segments: 1 },
+					{ prefix: 'a/', delimiter: '-' },
+				],
+				pool
+			)
+		).toThrow();
+
+		// The previous placement defaults to the current one, and its pins must be in the previous pool
+		const resharding = parseVirtualBuckets({
+			media: { buckets: ['aaaa', 'bbbb'], previousBuckets: ['aaaa'], placement: [{ prefix: 'a/', segments: 1 }] },
+		});
+		expect(resharding.get('media')?.previousPlacement).toEqual([{ prefix: 'a/', segments: 1 }]);
+		expect(() =>
+			parseVirtualBuckets({
+				media: { buckets: ['aaaa', 'bbbb'], previousBuckets: ['aaaa'], previousPlacement: [{ prefix: 'a/', bucket: 'bbbb' }] },
+			})
+		).toThrow();
+	});
+
+	it('should place replicated keys on their primary and the next buckets in their ranking', async () => {
+		const media = parseVirtualBuckets({
+			media: {
+				buckets: ['aaaa', 'bbbb', 'cccc'],
+				replication: [
+					{ prefix: 'hot/', replicas: 2 },
+					{ prefix: 'hot/very/', replicas: 3 },
+				],
+			},
+		}).get('media')!;
+
+		const replicas = await placeReplicas(media, 'hot/a.txt');
+		expect(replicas).toEqual((await rankBuckets('hot/a.txt', media.pool)).slice(0, 2).map((member) => member.name));
+		expect(replicas[0]).toBe(await placeKey(media, 'hot/a.txt'));
+		expect(await placeReplicas(media, 'hot/very/a.txt')).toHaveLength(3);
+		expect(await placeReplicas(media, 'cold/a.txt')).toEqual([await placeKey(media, 'cold/a.txt')]);
+
+		const pool = parseBucketPool(['aaaa', 'bbbb']);
+		expect(() => parseReplicationRules([{ prefix: 'a/', replicas: 0 }], pool)).toThrow();
+		expect(() => parseReplicationRules([{ prefix: 'a/', replicas: 3 }], pool)).toThrow();
+		expect(() => parseReplicationRules([{ prefix: 'a/' }], pool)).toThrow();
+		expect(() =>
+			parseReplicationRules(
+				[
+					{ prefix: 'a/', replicas: 2 },
+					{ prefix: 'a/', replicas: 1 },
+				],
+				pool
+			)
+		).toThrow();
+	});
+
+	it('should reject invalid cache rules', () => {
+		expect(parseCacheRules([{ prefix: '', ttl: 60 }])).toEqual([{ prefix: '', ttl: 60 }]);
+		expect(() => parseCacheRules({ prefix: 'a/', ttl: 60 })).toThrow();
+		expect(() => parseCacheRules([{ prefix: 'a/' }])).toThrow();
+		expect(() => parseCacheRules([{ prefix: 'a/', ttl: -1 }])).toThrow();
+		expect(() =>
+			parseCacheRules([
+				{ prefix: 'a/', ttl: 60 },
+				{ prefix: 'a/', ttl: 0 },
+			])
+		).toThrow();
+	});
+
+	it('should reject invalid encryption rules', () => {
+		expect(
+			parseEncryptionRules([
+				{ prefix: '', key: 'MASTER_KEY' },
+				{ prefix: 'public/', key: null },
+			])
+		).toEqual([
+			{ prefix: '', key: 'MASTER_KEY' },
+			{ prefix: 'public/', key: null },
+		]);
+		expect(() => parseEncryptionRules({ prefix: 'a/', key: 'MASTER_KEY' })).toThrow();
+		expect(() => parseEncryptionRules([{ prefix: 'a/' }])).toThrow();
+		expect(() => parseEncryptionRules([{ prefix: 'a/', key: '' }])).toThrow();
+		expect(() =>
+			parseEncryptionRules([
+				{ prefix: 'a/', key: 'MASTER_KEY' },
+				{ prefix: 'a/', key: null },
+			])
+		).toThrow();
+	});
+
+	it('should reject invalid notification rules', () => {
+		expect(parseNotificationRules([{ prefix: 'images/', suffix: '.jpg', queue: 'EVENTS' }])).toEqual([
+			{
+				prefix: 'images/',
+				suffix: '.jpg',
+				events: ['ObjectCreated:*', 'ObjectRemoved:*'],
+				destination: { type: 'queue', binding: 'EVENTS' },
+			},
+		]);
+		expect(
+			parseNotificationRules([{ events: ['ObjectRemoved:Delete'], webhook: 'https://example.com/hook', secret: 'WEBHOOK_SECRET' }])
+		).toEqual([
+			{
+				prefix: '',
+				suffix: '',
+				events: ['ObjectRemoved:Delete'],
+				destination: { type: 'webhook', url: 'https://example.com/hook', secret: 'WEBHOOK_SECRET' },
+			},
+		]);
+		expect(() => parseNotificationRules({ queue: 'EVENTS' })).toThrow();
+		expect(() => parseNotificationRules([{ prefix: 'a/' }])).toThrow();
+		expect(() => parseNotificationRules([{ queue: 'EVENTS', webhook: 'https://example.com/hook', secret: 'S' }])).toThrow();
+		expect(() => parseNotificationRules([{ webhook: 'http://example.com/hook', secret: 'S' }])).toThrow();
+		expect(() => parseNotificationRules([{ webhook: 'https://example.com/hook' }])).toThrow();
+		expect(() => parseNotificationRules([{ events: ['ObjectCreated:Post'], queue: 'EVENTS' }])).toThrow();
+		expect(() => parseNotificationRules([{ events: [], queue: 'EVENTS' }])).toThrow();
+	});
+});
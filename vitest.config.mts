@@ -5,6 +5,8 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				// Secrets are not in wrangler.jsonc
+				miniflare: { bindings: { LIST_TOKEN_SECRET: 'list-token-secret' } },
 			},
 		},
 	},
@@ -0,0 +1,14 @@
+// Settings `wrangler types` cannot see, since they are secrets set with `wrangler secret put` or optional bindings
+// and vars a deployment may leave out. They extend the Env generated in worker-configuration.d.ts, so keep them
+// here rather than editing that file.
+declare namespace Cloudflare {
+	interface Env {
+		LIST_TOKEN_SECRET?: string;
+		CREDENTIALS?: string;
+		CREDENTIALS_KV?: KVNamespace;
+		BASE_DOMAIN?: string;
+		ACCOUNTS?: string | Record<string, unknown>;
+		METRICS?: AnalyticsEngineDataset;
+		ADMIN_TOKEN?: string;
+	}
+}